@@ -1,21 +1,39 @@
 // backend/bot.ts
 
 import 'dotenv/config';
-import TelegramBot from 'node-telegram-bot-api';
+import TelegramBot, { CallbackQuery, Message } from 'node-telegram-bot-api';
 import fetch from 'node-fetch';
-import bcrypt from 'bcryptjs';
-import { Driver, DriverDocument } from './models/Driver';
+import {
+  DOC_KEYS, DOC_LABELS as nice, DocKey, Driver, DriverDocument, EXPIRING_DOC_KEYS
+} from './models/Driver';
 import { escapeHtml } from './utils/escapeHtml';
-import { v2 as cloudinary } from 'cloudinary';
-
-// ────────────────────────────────────────────────────────────────────
-// 0) Cloudinary configuration
-// ────────────────────────────────────────────────────────────────────
-cloudinary.config({
-  cloud_name: process.env.CLOUDINARY_CLOUD_NAME!,
-  api_key: process.env.CLOUDINARY_API_KEY!,
-  api_secret: process.env.CLOUDINARY_API_SECRET!,
-});
+import { acceptOffer, declineOffer } from './controllers/dispatchController';
+import {
+  advanceTrip, cancelReasonKeyboard, cancelReasonLabel, cancelTrip, notifyTransition
+} from './controllers/tripController';
+import { recordLocation, setOnline } from './controllers/availabilityController';
+import { isValidPin, PIN_TTL_HOURS, setPin } from './controllers/authController';
+import { addComment, awaitingComment, commentKeyboard, rateTrip } from './controllers/ratingController';
+import { MAX_RELAY_LENGTH, openChatFor, relayMessage } from './controllers/relayController';
+import {
+  latestStatements, statementCsv, statementFilename, statementSummary, walletBalance
+} from './controllers/walletController';
+import {
+  isSubscribed, planFor, planKeyboard, startSubscriptionPayment, subscriptionLinkFor, subscriptionStatus
+} from './controllers/subscriptionController';
+import {
+  activeVehicleOf, approvedVehicles, classesFor, completeVehicle, draftVehicle, isActiveVehicle, isValidPlate,
+  legacyVehicle, normalizePlate, plateTaken, selectVehicle, startVehicle, vehicleLabel, vehiclesOf
+} from './controllers/vehicleController';
+import {
+  CLASS_MIN_SEATS, isVehicleClass, Vehicle, VEHICLE_CLASS_LABELS, VEHICLE_DOC_KEYS, VEHICLE_DOC_LABELS,
+  VEHICLE_SETUP_STEPS, VehicleDocument, VehicleSetupStep
+} from './models/Vehicle';
+import { driverExport, eraseDriver, exportFile } from './controllers/privacyController';
+import { formatZar } from './utils/fare';
+import { createSessionStore } from './utils/sessionStore';
+import { publish, rooms } from './utils/realtime';
+import { getStorage } from './utils/storage';
 
 // ────────────────────────────────────────────────────────────────────
 // 1) Instantiate the Telegram bot
@@ -33,32 +51,12 @@ if (process.env.NODE_ENV !== 'production') {
 // ────────────────────────────────────────────────────────────────────
 // 2) Session bookkeeping for the registration flow
 // ────────────────────────────────────────────────────────────────────
-type Step = 'name' | 'phone' | 'docs' | 'set_pin';
-const session = new Map<string, Step>();
-
-// ────────────────────────────────────────────────────────────────────
-// 3) Document keys & human‑friendly labels
-// ────────────────────────────────────────────────────────────────────
-const DOC_KEYS = [
-  'profilePhoto', 'vehiclePhoto', 'nationalId', 'vehicleRegistration',
-  'driversLicense', 'insuranceCertificate', 'pdpOrPsvBadge',
-  'dekraCertificate', 'policeClearance', 'licenseDisc'
-] as const;
-
-type DocKey = typeof DOC_KEYS[number];
-const nice: Record<DocKey, string> = {
-  profilePhoto: 'Driver Profile Photo',
-  vehiclePhoto: 'Vehicle Photo (with plate)',
-  nationalId: 'National ID Document',
-  vehicleRegistration: 'Vehicle Registration / LogBook',
-  driversLicense: "Driver's License",
-  insuranceCertificate: 'Vehicle Insurance Certificate',
-  pdpOrPsvBadge: 'PDP / PSV Badge',
-  dekraCertificate: 'DEKRA Certificate',
-  policeClearance: 'Police Clearance Certificate',
-  licenseDisc: 'Vehicle License Disc'
-};
+type Step = 'name' | 'phone' | 'docs' | 'doc_expiry' | 'reupload' | 'set_pin' | 'rate_comment' | 'vehicle';
+const session = createSessionStore<Step>('driver');
 
+// ────────────────────────────────────────────────────────────────────
+// 3) Document helpers (keys & labels live in models/Driver.ts)
+// ────────────────────────────────────────────────────────────────────
 const isImageMime = (m?: string) =>
   !!m && ['image/jpeg', 'image/png', 'image/gif', 'image/webp']
     .includes(m.toLowerCase());
@@ -66,12 +64,19 @@ const isImageMime = (m?: string) =>
 // ────────────────────────────────────────────────────────────────────
 // 4) Helper — main menu keyboard after registration
 // ────────────────────────────────────────────────────────────────────
+const MENU_BUTTONS = ['📊 Status', '🔄 Reset', '❓ Help', '🚗 Dashboard', '🔴 Go offline', '🟢 Go online'];
+
 function mainMenu(d?: DriverDocument) {
   const rows = [
     [{ text: '📊 Status' }, { text: '🔄 Reset' }],
     [{ text: '❓ Help' }]
   ];
-  if (d?.status === 'approved') rows.unshift([{ text: '🚗 Dashboard' }]);
+  if (d?.status === 'approved') {
+    rows.unshift(
+      [{ text: '🚗 Dashboard' }],
+      [{ text: d.isOnline ? '🔴 Go offline' : '🟢 Go online' }]
+    );
+  }
   return { reply_markup: { keyboard: rows, resize_keyboard: true } };
 }
 
@@ -90,7 +95,7 @@ bot.onText(/^\/start$/, async msg => {
     );
   }
 
-  session.set(chat, 'name');
+  await session.set(chat, 'name');
   return bot.sendMessage(chat,
     '👋 *Welcome to VayaRide!*’\nPlease enter your *full name* to register:',
     { parse_mode: 'Markdown' }
@@ -106,58 +111,123 @@ bot.onText(/^\/help$/, msg =>
     '❓ *Help*\n' +
     '/start – begin registration or show menu\n' +
     '/status – view your registration status\n' +
+    '/online – start your shift (approved drivers)\n' +
+    '/offline – end your shift\n' +
+    '/vehicles – register vehicles and pick one for your shift\n' +
+    '/renew – replace expiring or rejected documents\n' +
+    '/dashboard – link to your driver dashboard\n' +
+    '/statement – wallet balance and weekly statement\n' +
+    '/subscribe – your platform plan and renewals\n' +
     '/newpin – reset your 4‑digit PIN\n' +
-    '/reset – clear registration and start over',
+    '/reset – clear registration and start over\n' +
+    '/mydata – download the data we hold about you\n' +
+    '/deleteme – delete your data and close your account\n\n' +
+    '💬 During a trip, just type here to message the rider.',
     { parse_mode: 'Markdown' }
   )
 );
 
 // ────────────────────────────────────────────────────────────────────
-// 7) /status, /newpin, /reset
+// 7) /status, /newpin, /dashboard, /statement
 // ────────────────────────────────────────────────────────────────────
 bot.onText(/^\/status$/, async msg => {
   const chat = String(msg.chat.id);
   const d = await Driver.findByChatId(chat);
   if (!d) return bot.sendMessage(chat, '❌ Not registered. Send /start.', mainMenu());
 
+  const vehicle = await activeVehicleOf(d);
   return bot.sendMessage(chat,
     `📋 Name: ${d.fullName || '—'}\n` +
     `📱 Phone: ${d.phone || '—'}\n` +
     `📄 Docs: ${d.documentsComplete ? '✅ Complete' : '❌ Missing'}\n` +
-    `🔖 Status: ${d.status.toUpperCase()}`,
+    `🔖 Status: ${d.status.toUpperCase()}` +
+    (vehicle ? `\n🚘 Vehicle: ${vehicleLabel(vehicle)}` : '') +
+    (d.status === 'approved' ? `\n${subscriptionStatus(d)}` : ''),
     mainMenu(d)
   );
 });
 
-// ────────────────────────────────────────────────────────────────────
-// 8) Payment Request: /pay command to initiate the payment process
-// ────────────────────────────────────────────────────────────────────
-bot.onText(/^\/pay$/, async msg => {
+const dashboardUrl = (chatId: string) =>
+  `${process.env.APP_BASE_URL}/driver/login?chat=${encodeURIComponent(chatId)}`;
+
+bot.onText(/^\/newpin$/, async (msg: Message) => {
   const chat = String(msg.chat.id);
+  const d = await Driver.findByChatId(chat);
+  if (d?.status !== 'approved')
+    return bot.sendMessage(chat, '🔒 The dashboard opens once your account is approved.', mainMenu(d ?? undefined));
 
-  // Simulate the amount to be paid (this can be dynamic based on the service)
-  const amountToPay = 100; // Example: 100 ZAR for the service
+  await session.set(chat, 'set_pin');
+  return bot.sendMessage(chat, '🔑 Send your new 4‑digit PIN.');
+});
 
-  try {
-    // Call the backend endpoint to generate the payment link
-    const response = await fetch(`${process.env.BACKEND_URL}/generate-payment-link`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ chatId: chat, amount: amountToPay })
-    });
+bot.onText(/^(\/dashboard|🚗 Dashboard)$/, async (msg: Message) => {
+  const chat = String(msg.chat.id);
+  const d = await Driver.findByChatId(chat);
+  if (d?.status !== 'approved')
+    return bot.sendMessage(chat, '🔒 The dashboard opens once your account is approved.', mainMenu(d ?? undefined));
 
-    const data = await response.json();
+  const pinOk = d.pin?.hash && d.pin.expiresAt && d.pin.expiresAt > new Date();
+  return bot.sendMessage(chat,
+    `👉 Open your dashboard:\n${dashboardUrl(chat)}` +
+    (pinOk ? '' : '\n\n🔑 Your PIN is missing or expired — send /newpin first.'),
+    { disable_web_page_preview: true }
+  );
+});
 
-    if (data.error) {
-      return bot.sendMessage(chat, `❌ Error: ${data.error}`);
-    }
+/** /statement — wallet balance and the latest weekly statement as CSV. */
+bot.onText(/^\/statement$/, async (msg: Message) => {
+  const chat = String(msg.chat.id);
+  const d = await Driver.findByChatId(chat);
+  if (!d) return bot.sendMessage(chat, '❌ Not registered. Send /start.', mainMenu());
+
+  const [balance, [latest]] = await Promise.all([walletBalance(chat), latestStatements(chat, 1)]);
+  const current = `💼 Current balance: ${formatZar(balance)}` + (balance < 0 ? ' (commission owed)' : '');
+  if (!latest) {
+    return bot.sendMessage(chat, `${current}
+
+📄 Your first statement arrives after your first full week of trips.`);
+  }
+
+  await bot.sendMessage(chat, `${statementSummary(latest)}
+
+${current}`);
+  return bot.sendDocument(chat, Buffer.from(await statementCsv(latest)), {}, {
+    filename: statementFilename(latest), contentType: 'text/csv'
+  });
+});
+
+// ────────────────────────────────────────────────────────────────────
+// 8) Platform subscription: /subscribe (or /pay) → plan → PayFast link
+// ────────────────────────────────────────────────────────────────────
+bot.onText(/^\/(subscribe|pay)$/, async (msg: Message) => {
+  const chat = String(msg.chat.id);
+  const d = await Driver.findByChatId(chat);
+  if (d?.status !== 'approved')
+    return bot.sendMessage(chat, '🔒 Plans open once your account is approved.', mainMenu(d ?? undefined));
 
-    // Payment link sent to user
-    return bot.sendMessage(chat, `💳 To complete your payment of ${amountToPay} ZAR, please follow this link: ${data.paymentLink}`);
-  } catch (error) {
-    console.error(error);
-    return bot.sendMessage(chat, '❌ An error occurred while processing your payment request.');
+  return bot.sendMessage(chat,
+    `${subscriptionStatus(d)}\n\n` +
+    (isSubscribed(d) ? 'Buy another plan to extend it:' : 'Choose a plan to go online and receive trips:'),
+    { reply_markup: { inline_keyboard: planKeyboard() } }
+  );
+});
+
+bot.on('callback_query', async (cq: CallbackQuery) => {
+  const [prefix, key] = (cq.data ?? '').split(':');
+  if (prefix !== 'sub') return;
+  const chat = String(cq.from.id);
+
+  const [d, plan] = [await Driver.findByChatId(chat), planFor(key)];
+  if (d?.status !== 'approved' || !plan) {
+    return bot.answerCallbackQuery(cq.id, { text: '⚠️ This plan is not available.', show_alert: true });
   }
+
+  const payment = await startSubscriptionPayment(d, plan);
+  await bot.answerCallbackQuery(cq.id);
+  return bot.sendMessage(chat,
+    `💳 ${plan.label} plan — ${formatZar(plan.price)} for ${plan.days} day${plan.days === 1 ? '' : 's'}.`,
+    { reply_markup: { inline_keyboard: [[{ text: '💳 Pay now', url: subscriptionLinkFor(payment.id) }]] } }
+  );
 });
 
 // ────────────────────────────────────────────────────────────────────
@@ -169,16 +239,234 @@ const docsIntro = () =>
   DOC_KEYS.map((k, i) => `${i + 1}. ${nice[k]}`).join('\n') +
   '\n\nI’ll prompt after each upload.';
 
+/** First uploaded document whose expiry date we still need to ask for. */
+const awaitingExpiry = (d: DriverDocument) =>
+  EXPIRING_DOC_KEYS.find(k => d.documents[k] && !d.documents[k]!.expiresAt);
+
+/**
+ * Documents awaiting a replacement: rejected by an admin, already lapsed,
+ * or flagged by a renewal reminder (see jobs/documentExpiry.ts).
+ */
+const docsToReplace = (d: DriverDocument) =>
+  DOC_KEYS.filter(k => {
+    const f = d.documents[k];
+    if (!f) return false;
+    if (f.rejectedReason) return true;
+    return !!f.expiresAt && (f.expiresAt.getTime() <= Date.now() || !!f.remindersSent?.length);
+  });
+
+/** Parse a YYYY‑MM‑DD reply into end of that day (SAST); null unless valid and in the future. */
+function parseExpiry(text: string): Date | null {
+  const s = text.trim().replace(/[‐-―/.]/g, '-');
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(s)) return null;
+  const at = new Date(`${s}T23:59:59+02:00`);
+  // rejects impossible dates such as 2025‑02‑30
+  if (isNaN(at.getTime()) || at.toISOString().slice(0, 10) !== s) return null;
+  return at.getTime() > Date.now() ? at : null;
+}
+
+/** Put the driver into re‑upload mode for one document. */
+async function promptReupload(d: DriverDocument, key: DocKey) {
+  await session.set(d.chatId, 'reupload');
+  return bot.sendMessage(d.chatId,
+    `📤 Please send a new *${nice[key]}* now (photo or PDF).`,
+    { parse_mode: 'Markdown' }
+  );
+}
+
+/**
+ * Pick the next step after a document or expiry date was saved: ask for
+ * an expiry date, then the next missing document, then any replacements.
+ */
+async function continueDocuments(d: DriverDocument, doneText: string) {
+  const chat = d.chatId;
+
+  const undated = awaitingExpiry(d);
+  if (undated) {
+    await session.set(chat, 'doc_expiry');
+    return bot.sendMessage(chat,
+      `${doneText}\n📅 When does your *${nice[undated]}* expire? Reply as YYYY‑MM‑DD.`,
+      { parse_mode: 'Markdown' }
+    );
+  }
+
+  if (d.registrationStep === 'documents') {
+    const next = DOC_KEYS.find(k => !d.documents[k]);
+    if (next) {
+      await session.set(chat, 'docs');
+      return bot.sendMessage(chat,
+        `${doneText}\nPlease send *${nice[next]}* next.`,
+        { parse_mode: 'Markdown' }
+      );
+    }
+
+    // all docs done
+    d.registrationStep = 'completed';
+    d.status = 'pending';
+    await d.save();
+    await session.delete(chat);
+    publish(rooms.admin, 'driver:registered', { driverId: d.id, chatId: chat, fullName: d.fullName });
+    await bot.sendMessage(chat,
+      '🎉 All documents uploaded! We’ll review you shortly.',
+      mainMenu(d)
+    );
+    // anything rejected while registration was still running
+    const pending = docsToReplace(d);
+    if (pending.length) return promptReupload(d, pending[0]);
+    return;
+  }
+
+  const next = docsToReplace(d)[0];
+  if (next) {
+    await bot.sendMessage(chat, doneText, { parse_mode: 'Markdown' });
+    return promptReupload(d, next);
+  }
+  await session.delete(chat);
+  return bot.sendMessage(chat,
+    `${doneText} We’ll review it shortly.`,
+    { parse_mode: 'Markdown', ...mainMenu(d) }
+  );
+}
+
+/**
+ * Rebuild the step for a driver whose session expired or was lost in a
+ * restart, from what is already saved on their record. Once registered,
+ * a reply only counts as an expiry date if it is one and we asked.
+ */
+function resumeStep(d: DriverDocument, m: Message): Step | undefined {
+  switch (d.registrationStep) {
+    case 'name':
+    case 'phone':
+      return d.registrationStep;
+    case 'documents':
+      return awaitingExpiry(d) ? 'doc_expiry' : 'docs';
+  }
+  if (d.expiryAskedAt && awaitingExpiry(d) && m.text && parseExpiry(m.text)) return 'doc_expiry';
+  if ((m.photo || m.document) && docsToReplace(d).length) return 'reupload';
+  return undefined;
+}
+
+/**
+ * Ask a registered driver for the expiry dates their documents were
+ * uploaded without (jobs/documentExpiry.ts, once per driver). False when
+ * none are missing.
+ */
+export async function askExpiryDates(d: DriverDocument) {
+  const key = awaitingExpiry(d);
+  if (!key) return false;
+  d.expiryAskedAt = new Date();
+  await d.save();
+  await session.set(d.chatId, 'doc_expiry');
+  await bot.sendMessage(d.chatId,
+    `📅 We now track document expiry dates. When does your *${nice[key]}* expire? Reply as YYYY‑MM‑DD.`,
+    { parse_mode: 'Markdown' }
+  );
+  return true;
+}
+
+/** /renew — replace documents that are expiring, lapsed or rejected. */
+bot.onText(/^\/renew$/, async (msg: Message) => {
+  const chat = String(msg.chat.id);
+  const d = await Driver.findByChatId(chat);
+  if (!d || d.registrationStep !== 'completed')
+    return bot.sendMessage(chat, '❌ Finish registering first. Send /start.');
+
+  const due = docsToReplace(d);
+  if (!due.length) return bot.sendMessage(chat, '✅ None of your documents need renewing.', mainMenu(d));
+
+  await bot.sendMessage(chat,
+    '🔁 *Documents to renew:*\n' + due.map(k => `• ${nice[k]}`).join('\n'),
+    { parse_mode: 'Markdown' }
+  );
+  return promptReupload(d, due[0]);
+});
+
+interface UploadedFile {
+  fileId: string;
+  fileUniqueId?: string;
+  storageKey: string;
+  cloudUrl: string;
+  format: string;
+  bytes: number;
+}
+
+/**
+ * Download a photo/document from Telegram and put it in document storage
+ * (utils/storage.ts) as `name` in the driver's folder. Replies with the
+ * reason and resolves to null when anything fails.
+ */
+async function uploadTelegramFile(
+  m: Message, chat: string, name: string, label: string
+): Promise<UploadedFile | null> {
+  const fail = async (text: string) => { await bot.sendMessage(chat, text); return null; };
+
+  if (!m.photo && !m.document) return fail(`📎 Please send your ${label} as a photo or PDF.`);
+  const fileId = m.document?.file_id ?? m.photo![m.photo!.length - 1].file_id;
+
+  let tgUrl: string;
+  try { tgUrl = await bot.getFileLink(fileId); }
+  catch { return fail('❌ Could not fetch file from Telegram.'); }
+
+  let resp: Response;
+  try {
+    const ctrl = new AbortController();
+    const t = setTimeout(() => ctrl.abort(), 5000);
+    resp = await fetch(tgUrl, { signal: ctrl.signal });
+    clearTimeout(t);
+    if (!resp.ok) throw 0;
+  } catch {
+    return fail('❌ Download timed‑out.');
+  }
+
+  const mime = m.document?.mime_type;
+  let contentType: string;
+  if (m.photo) contentType = 'image/jpeg';
+  else if (isImageMime(mime) || mime === 'application/pdf') contentType = mime!;
+  else return fail('❌ Only JPG/PNG images or PDFs allowed.');
+
+  let stored;
+  try {
+    const buf = Buffer.from(await resp.arrayBuffer());
+    stored = await getStorage().put(`vayaride/${chat}/${name}`, buf, contentType);
+  } catch (err: unknown) {
+    console.error(err);
+    return fail(`❌ Upload failed: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  return {
+    fileId,
+    fileUniqueId: m.document?.file_unique_id ?? m.photo![0].file_unique_id,
+    storageKey: stored.key,
+    cloudUrl: stored.url,
+    format: stored.format,
+    bytes: stored.bytes
+  };
+}
+
+/**
+ * Upload a driver document and save it under `key` (which also resets
+ * its review state). Resolves to false when the upload failed.
+ */
+async function storeDocument(m: Message, d: DriverDocument, key: DocKey): Promise<boolean> {
+  const file = await uploadTelegramFile(m, d.chatId, key, nice[key]);
+  if (!file) return false;
+  await d.addOrUpdateDocument(key, file);
+  return true;
+}
+
 bot.on('message', async (m: Message) => {
   if ((m.text?.startsWith('/')) || (!m.text && !m.photo && !m.document)) return;
 
   const chat = String(m.chat.id);
-  const step = session.get(chat);
-  if (!step) return;
-
   const d = await Driver.findByChatId(chat);
   if (!d) return;
 
+  const step = (await session.get(chat)) ?? resumeStep(d, m);
+  if (!step) {
+    if (m.text && !MENU_BUTTONS.includes(m.text)) await relayToRider(chat, m.text);
+    return;
+  }
+
   if (step === 'name' && m.text) {
     const name = m.text.trim();
     if (name.length < 2 || name.length > 50)
@@ -186,7 +474,7 @@ bot.on('message', async (m: Message) => {
     d.fullName = name;
     d.registrationStep = 'phone';
     await d.save();
-    session.set(chat, 'phone');
+    await session.set(chat, 'phone');
     return bot.sendMessage(chat, '📞 Great! Now send your *contact number* (+country code):', { parse_mode: 'Markdown' });
   }
 
@@ -199,80 +487,44 @@ bot.on('message', async (m: Message) => {
     d.phone = phone;
     d.registrationStep = 'documents';
     await d.save();
-    session.set(chat, 'docs');
+    await session.set(chat, 'docs');
     return bot.sendMessage(chat, docsIntro(), { parse_mode: 'Markdown' });
   }
 
   if (step === 'docs') {
     const key = DOC_KEYS.find(k => !d.documents[k]);
     if (!key) return;
+    if (!(await storeDocument(m, d, key))) return;
+    return continueDocuments(d, `✅ *${nice[key]}* received!`);
+  }
 
-    const fileId = m.document?.file_id ?? m.photo![m.photo!.length - 1].file_id;
-    
-    let tgUrl: string;
-    try { tgUrl = await bot.getFileLink(fileId); }
-    catch { return bot.sendMessage(chat, '❌ Could not fetch file from Telegram.'); }
-
-    let resp: Response;
-    try {
-      const ctrl = new AbortController();
-      const t = setTimeout(() => ctrl.abort(), 5000);
-      resp = await fetch(tgUrl, { signal: ctrl.signal });
-      clearTimeout(t);
-      if (!resp.ok) throw 0;
-    } catch {
-      return bot.sendMessage(chat, '❌ Download timed‑out.');
+  if (step === 'reupload') {
+    const key = docsToReplace(d)[0];
+    if (!key) {
+      await session.delete(chat);
+      return bot.sendMessage(chat, '✅ Nothing left to replace.', mainMenu(d));
     }
+    if (!(await storeDocument(m, d, key))) return;
+    return continueDocuments(d, `✅ *${nice[key]}* replaced!`);
+  }
 
-    const mime = m.document?.mime_type;
-    let resType: 'image' | 'raw';
-    if (isImageMime(mime) || m.photo) resType = 'image';
-    else if (mime === 'application/pdf') resType = 'raw';
-    else return bot.sendMessage(chat, '❌ Only JPG/PNG images or PDFs allowed.');
-
-    let upload: any;
-    try {
-      const buf = Buffer.from(await resp.arrayBuffer());
-      upload = await new Promise((res, rej) => {
-        const s = cloudinary.uploader.upload_stream({
-          folder: `vayaride/${chat}`,
-          public_id: key,
-          resource_type: resType,
-          timeout: 180_000
-        }, (e, r) => e ? rej(e) : res(r));
-        s.end(buf);
-      });
-    } catch (err: any) {
-      console.error(err);
-      return bot.sendMessage(chat, `❌ Upload failed: ${err.message || err}`);
+  if (step === 'doc_expiry') {
+    const key = awaitingExpiry(d);
+    if (!key) return continueDocuments(d, '✅ All expiry dates saved.');
+    if (m.text && MENU_BUTTONS.includes(m.text)) return;       // handled by its command
+    const expiresAt = m.text ? parseExpiry(m.text) : null;
+    // during a trip anything but a date is chat for the rider
+    if (!expiresAt && m.text && d.registrationStep === 'completed' && (await openChatFor('driver', chat))) {
+      return relayToRider(chat, m.text);
     }
-
-    await d.addOrUpdateDocument(key, {
-      fileId,
-      fileUniqueId: m.document?.file_unique_id ?? m.photo![0].file_unique_id,
-      cloudUrl: upload.secure_url,
-      format: upload.format,
-      bytes: upload.bytes
-    });
-
-    const next = DOC_KEYS.find(k => !d.documents[k]);
-    if (next) {
+    if (!expiresAt) {
       return bot.sendMessage(chat,
-        `✅ *${nice[key]}* received!\n` +
-        `Please send *${nice[next]}* next.`,
-        { parse_mode: 'Markdown' }
+        `❌ Please reply with the future expiry date of your ${nice[key]} as YYYY‑MM‑DD, e.g. 2027‑03‑31.`
       );
     }
-
-    // all docs done
-    d.registrationStep = 'completed';
-    d.status = 'pending';
+    d.set(`documents.${key}.expiresAt`, expiresAt);
     await d.save();
-    session.delete(chat);
-    return bot.sendMessage(chat,
-      '🎉 All documents uploaded! We’ll review you shortly.',
-      mainMenu(d)
-    );
+    return continueDocuments(d, `✅ Expiry date saved for *${nice[key]}*.`);
   }
 
   // ────────────────────────────────────────────────────────────────────
@@ -280,25 +532,487 @@ bot.on('message', async (m: Message) => {
   // ────────────────────────────────────────────────────────────────────
   if (step === 'set_pin' && m.text) {
     const pin = m.text.trim();
-    if (!/^\d{4}$/.test(pin))
+    if (!isValidPin(pin))
       return bot.sendMessage(chat, '❌ PIN must be exactly 4 digits.');
-    const hash = await bcrypt.hash(pin, 10);
-    d.pin = { hash, expiresAt: Date.now() + 24 * 60 * 60 * 1000 };
-    await d.save();
-    session.delete(chat);
+    await setPin(d, pin);
+    await session.delete(chat);
     return bot.sendMessage(chat,
-      '✅ PIN saved! It will expire in 24 hours.',
+      `✅ PIN saved! It will expire in ${PIN_TTL_HOURS} hours — send /newpin for a new one.`,
       mainMenu(d)
     );
   }
+
+  if (step === 'vehicle') return vehicleStep(m, d);
+
+  if (step === 'rate_comment' && m.text) {
+    const trip = await awaitingComment('driver', chat);
+    if (trip) await addComment(trip, 'driver', m.text);
+    await session.delete(chat);
+    return bot.sendMessage(chat, '🙏 Thanks for the feedback!', mainMenu(d));
+  }
+
+});
+
+// ────────────────────────────────────────────────────────────────────
+// 10) Shift availability & live location
+// ────────────────────────────────────────────────────────────────────
+/** Put the driver on shift in `v` and ask for their live location. */
+async function goOnline(d: DriverDocument, v: VehicleDocument) {
+  await selectVehicle(d, v);
+  await setOnline(d, true);
+  return bot.sendMessage(d.chatId,
+    '🟢 You’re <b>online</b>.\n' +
+    `🚘 ${escapeHtml(vehicleLabel(v))}\n` +
+    'Please <b>share your live location</b> (📎 → Location → Share My Live Location) ' +
+    'so we can offer you nearby trips.',
+    { parse_mode: 'HTML', ...mainMenu(d) }
+  );
+}
+
+/** Why the driver can’t start a shift right now, if anything. */
+const onlineBlocker = (d: DriverDocument | null) =>
+  d?.status !== 'approved' ? 'not_approved' : !isSubscribed(d) ? 'no_plan' : undefined;
+
+bot.onText(/^(\/online|🟢 Go online)$/, async (msg: Message) => {
+  const chat = String(msg.chat.id);
+  const d = await Driver.findByChatId(chat);
+  const blocker = onlineBlocker(d);
+  if (blocker === 'not_approved')
+    return bot.sendMessage(chat, '🚫 Only approved drivers can go online.', mainMenu(d ?? undefined));
+  if (blocker === 'no_plan') {
+    return bot.sendMessage(chat,
+      '⛔ You need an active plan to go online and receive trips. Choose one below:',
+      { reply_markup: { inline_keyboard: planKeyboard() } });
+  }
+
+  // drivers approved before /vehicles existed get theirs on first use
+  const vehicles = await approvedVehicles(chat);
+  const legacy = vehicles.length ? null : await legacyVehicle(d!);
+  if (legacy) vehicles.push(legacy);
+  if (!vehicles.length) {
+    return bot.sendMessage(chat,
+      '🚘 You need an approved vehicle to go online. Send /vehicles to register one.');
+  }
+  if (vehicles.length === 1) return goOnline(d!, vehicles[0]);
+  return bot.sendMessage(chat, '🚘 Which vehicle are you driving this shift?', {
+    reply_markup: { inline_keyboard: vehicleButtons(d!, vehicles, 'online') }
+  });
+});
+
+bot.onText(/^(\/offline|🔴 Go offline)$/, async (msg: Message) => {
+  const chat = String(msg.chat.id);
+  const d = await Driver.findByChatId(chat);
+  if (!d) return bot.sendMessage(chat, '❌ Not registered. Send /start.', mainMenu());
+
+  await setOnline(d, false);
+  return bot.sendMessage(chat, '🔴 You’re *offline*. You won’t receive trip offers.', {
+    parse_mode: 'Markdown', ...mainMenu(d)
+  });
+});
+
+// live‑location updates arrive as edited messages
+const onDriverLocation = async (m: Message) => {
+  if (!m.location) return;
+  await recordLocation(String(m.chat.id), m.location.latitude, m.location.longitude);
+};
+bot.on('message', onDriverLocation);
+bot.on('edited_message', onDriverLocation);
+
+// ────────────────────────────────────────────────────────────────────
+// 11) Vehicles: /vehicles → add (details, class, documents) or pick one
+// ────────────────────────────────────────────────────────────────────
+const VEHICLE_STATUS_ICON = { pending: '⏳', approved: '✅', rejected: '❌' };
+
+/** One button per vehicle (callback `veh:<action>:<vehicleId>`), the active one ticked. */
+const vehicleButtons = (d: DriverDocument, vehicles: VehicleDocument[], action: 'use' | 'online') =>
+  vehicles.map(v => [{
+    text: `${isActiveVehicle(d, v) ? '✅ ' : ''}${vehicleLabel(v)}`,
+    callback_data: `veh:${action}:${v.id}`
+  }]);
+
+const nextSetupStep = (v: VehicleDocument) =>
+  VEHICLE_SETUP_STEPS[VEHICLE_SETUP_STEPS.indexOf(v.setupStep) + 1];
+
+const MIN_SEATS = Math.min(...Object.values(CLASS_MIN_SEATS));
+
+const vehicleQuestions: Partial<Record<VehicleSetupStep, string>> = {
+  make: 'What is the vehicle’s make? (e.g. Toyota)',
+  model: 'And the model? (e.g. Corolla)',
+  color: 'What colour is it?',
+  plate: 'What is its number plate?',
+  seats: 'How many passenger seats does it have (not counting yours)?'
+};
+
+/** Ask the next set‑up question, or submit the vehicle once everything is in. */
+async function continueVehicle(d: DriverDocument, v: VehicleDocument, doneText: string) {
+  const chat = d.chatId;
+  const question = vehicleQuestions[v.setupStep];
+  if (question) return bot.sendMessage(chat, `${doneText}\n${question}`);
+
+  if (v.setupStep === 'class') {
+    return bot.sendMessage(chat, `${doneText}\nWhich class should it drive in?`, {
+      reply_markup: {
+        inline_keyboard: classesFor(v.seats ?? 0).map(c => [
+          { text: VEHICLE_CLASS_LABELS[c], callback_data: `veh:class:${v.id}:${c}` }
+        ])
+      }
+    });
+  }
+
+  const missing = VEHICLE_DOC_KEYS.find(k => !v.documents[k]);
+  if (missing) return bot.sendMessage(chat, `${doneText}\n📎 Please send the ${VEHICLE_DOC_LABELS[missing]} (photo or PDF).`);
+
+  await completeVehicle(d, v);
+  await session.delete(chat);
+  return bot.sendMessage(chat,
+    `${doneText}\n` +
+    (v.status === 'approved'
+      ? `🎉 ${vehicleLabel(v)} is ready — pick it when you go /online.`
+      : `🎉 ${vehicleLabel(v)} submitted! We’ll review it shortly.`),
+    mainMenu(d)
+  );
+}
+
+/** Start a new vehicle, or pick up the one still being set up. */
+async function beginVehicle(d: DriverDocument) {
+  const draft = await draftVehicle(d.chatId);
+  const v = draft ?? await startVehicle(d);
+  await session.set(d.chatId, 'vehicle');
+  return continueVehicle(d, v, draft ? '✏️ Let’s finish adding your vehicle.' : '🚘 Adding a vehicle.');
+}
+
+/** One reply in the set‑up flow (session step `vehicle`). */
+async function vehicleStep(m: Message, d: DriverDocument) {
+  const chat = d.chatId;
+  const v = await draftVehicle(chat);
+  if (!v) {
+    await session.delete(chat);
+    return bot.sendMessage(chat, '✅ Nothing left to set up. Send /vehicles to see your vehicles.', mainMenu(d));
+  }
+  const text = m.text?.trim() ?? '';
+
+  switch (v.setupStep) {
+    case 'make':
+    case 'model':
+    case 'color':
+      if (text.length < 2 || text.length > 30)
+        return bot.sendMessage(chat, '❌ Please reply with 2–30 characters.');
+      v.set(v.setupStep === 'model' ? 'vehicleModel' : v.setupStep, text);
+      break;
+
+    case 'plate': {
+      const plate = normalizePlate(text);
+      if (!isValidPlate(plate)) return bot.sendMessage(chat, '❌ That doesn’t look like a number plate.');
+      if (await plateTaken(plate, v._id)) return bot.sendMessage(chat, '🚫 That plate is already registered.');
+      v.plate = plate;
+      break;
+    }
+
+    case 'seats': {
+      const seats = Number(text);
+      if (!Number.isInteger(seats) || seats < 1 || seats > 20)
+        return bot.sendMessage(chat, '❌ Please reply with a number, e.g. 4.');
+      if (seats < MIN_SEATS)
+        return bot.sendMessage(chat, `❌ Vehicles need at least ${MIN_SEATS} passenger seats.`);
+      v.seats = seats;
+      break;
+    }
+
+    case 'class':
+      return continueVehicle(d, v, '👇 Tap one of the buttons.');
+
+    case 'documents': {
+      const key = VEHICLE_DOC_KEYS.find(k => !v.documents[k]);
+      if (!key) return continueVehicle(d, v, '✅ Documents received.');
+      const file = await uploadTelegramFile(m, chat, `vehicle-${v.id}-${key}`, VEHICLE_DOC_LABELS[key]);
+      if (!file) return;
+      v.set(`documents.${key}`, { ...file, uploadedAt: new Date(), verified: false });
+      await v.save();
+      return continueVehicle(d, v, `✅ ${VEHICLE_DOC_LABELS[key]} received!`);
+    }
+  }
+
+  v.setupStep = nextSetupStep(v);
+  await v.save();
+  return continueVehicle(d, v, '✅ Saved.');
+}
+
+bot.onText(/^\/vehicles$/, async (msg: Message) => {
+  const chat = String(msg.chat.id);
+  const d = await Driver.findByChatId(chat);
+  if (!d || d.registrationStep !== 'completed')
+    return bot.sendMessage(chat, '❌ Finish registering first. Send /start.');
+
+  const vehicles = await vehiclesOf(chat);
+  const listed = vehicles.filter(v => v.setupStep === 'completed');
+  const draft = vehicles.some(v => v.setupStep !== 'completed');
+
+  const lines = listed.map(v =>
+    `${VEHICLE_STATUS_ICON[v.status]} ${escapeHtml(vehicleLabel(v))}` +
+    (isActiveVehicle(d, v) ? ' — <i>active</i>' : '') +
+    (v.status === 'rejected' && v.statusReason ? `\n    Reason: ${escapeHtml(v.statusReason)}` : '')
+  );
+  const choices = listed.filter(v => v.status === 'approved' && !isActiveVehicle(d, v));
+
+  return bot.sendMessage(chat,
+    lines.length ? `🚘 <b>Your vehicles</b>\n${lines.join('\n')}` : '🚘 You haven’t added a vehicle yet.',
+    {
+      parse_mode: 'HTML',
+      reply_markup: {
+        inline_keyboard: [
+          ...(d.isOnline ? [] : vehicleButtons(d, choices, 'use')),
+          [{ text: draft ? '✏️ Finish adding vehicle' : '➕ Add a vehicle', callback_data: 'veh:add' }]
+        ]
+      }
+    }
+  );
+});
+
+bot.on('callback_query', async (cq: CallbackQuery) => {
+  const [prefix, action, vehicleId, vehicleClass] = (cq.data ?? '').split(':');
+  if (prefix !== 'veh' || !cq.message) return;
+  const chat = String(cq.from.id);
+  const alert = (text: string) => bot.answerCallbackQuery(cq.id, { text, show_alert: true });
+  const clearButtons = () =>
+    bot.editMessageReplyMarkup({ inline_keyboard: [] }, {
+      chat_id: cq.message!.chat.id, message_id: cq.message!.message_id
+    }).catch(() => undefined);
+
+  const d = await Driver.findByChatId(chat);
+  if (!d || d.registrationStep !== 'completed') return alert('❌ Finish registering first.');
+
+  if (action === 'add') {
+    await bot.answerCallbackQuery(cq.id);
+    await clearButtons();
+    return beginVehicle(d);
+  }
+
+  const v = await Vehicle.findOne({ _id: vehicleId, driverChatId: chat }).catch(() => null);
+  if (!v) return alert('⚠️ Vehicle not found.');
+
+  if (action === 'class') {
+    if (v.setupStep !== 'class' || !isVehicleClass(vehicleClass) || !classesFor(v.seats ?? 0).includes(vehicleClass))
+      return alert('⚠️ This class is not available for the vehicle.');
+    v.vehicleClass = vehicleClass;
+    v.setupStep = nextSetupStep(v);
+    await v.save();
+    await bot.answerCallbackQuery(cq.id);
+    await clearButtons();
+    return continueVehicle(d, v, `✅ Class: ${VEHICLE_CLASS_LABELS[vehicleClass]}.`);
+  }
+
+  if (v.status !== 'approved') return alert('⏳ This vehicle has not been approved yet.');
+
+  if (action === 'online') {
+    if (onlineBlocker(d)) return alert('⚠️ You can’t go online right now. Send /online for details.');
+    await bot.answerCallbackQuery(cq.id);
+    await clearButtons();
+    return goOnline(d, v);
+  }
+
+  if (action === 'use') {
+    if (d.isOnline) return alert('🔴 Go offline before switching vehicles.');
+    await selectVehicle(d, v);
+    await bot.answerCallbackQuery(cq.id, { text: '✅ Vehicle selected' });
+    await clearButtons();
+    return bot.sendMessage(chat, `🚘 You’ll drive ${vehicleLabel(v)} on your next shift.`, mainMenu(d));
+  }
+});
+
+// ────────────────────────────────────────────────────────────────────
+// 12) Trip offers from dispatch — accept / decline buttons
+// ────────────────────────────────────────────────────────────────────
+const offerRejection = {
+  not_found: 'Trip not found.',
+  taken: 'Sorry, another driver already took this trip.',
+  unavailable: 'This trip is no longer available.',
+  ineligible: 'You can’t accept trips right now. Send /online for details.'
+};
+
+/** Replace the text (and buttons) of the message a callback came from. */
+const editCallbackMessage = (cq: CallbackQuery, text: string, inline_keyboard?: object[][]) =>
+  cq.message
+    ? bot.editMessageText(text, {
+        chat_id: cq.message.chat.id,
+        message_id: cq.message.message_id,
+        ...(inline_keyboard ? { reply_markup: { inline_keyboard } } : {})
+      }).catch(() => undefined)
+    : undefined;
+
+bot.on('callback_query', async (cq: CallbackQuery) => {
+  const [action, tripId] = (cq.data ?? '').split(':');
+  if (action !== 'accept' && action !== 'decline') return;
+  const driverChat = String(cq.from.id);
+
+  if (action === 'decline') {
+    await declineOffer(tripId, driverChat);
+    await bot.answerCallbackQuery(cq.id, { text: 'Offer declined' });
+    return editCallbackMessage(cq, '❌ You declined this trip.');
+  }
+
+  const result = await acceptOffer(tripId, driverChat);
+  if (!result.ok) {
+    const text = offerRejection[result.reason];
+    await bot.answerCallbackQuery(cq.id, { text, show_alert: true });
+    return editCallbackMessage(cq, `🚫 ${text}`);
+  }
+
+  await bot.answerCallbackQuery(cq.id, { text: '✅ You accepted!' });
+  await editCallbackMessage(cq, '✅ You accepted this trip.');
+  await notifyTransition(result.trip);
+});
+
+// ────────────────────────────────────────────────────────────────────
+// 13) Trip progress — arrived / started / completed / cancel
+// ────────────────────────────────────────────────────────────────────
+bot.on('callback_query', async (cq: CallbackQuery) => {
+  const [prefix, action, tripId, code] = (cq.data ?? '').split(':');
+  if (prefix !== 'trip') return;
+  const driverChat = String(cq.from.id);
+
+  if (action === 'cancel' && !code) {
+    await bot.answerCallbackQuery(cq.id);
+    return editCallbackMessage(cq, 'Why are you cancelling?', cancelReasonKeyboard(tripId, 'driver'));
+  }
+
+  if (action === 'cancel') {
+    const reason = cancelReasonLabel('driver', code);
+    const trip = reason && await cancelTrip(tripId, 'driver', reason, driverChat);
+    await bot.answerCallbackQuery(cq.id, trip ? {} : { text: '⚠️ This trip can no longer be cancelled.', show_alert: true });
+    return editCallbackMessage(cq, trip ? '❌ Trip cancelled.' : '⚠️ Trip could not be cancelled.');
+  }
+
+  if (action === 'arrived' || action === 'started' || action === 'completed') {
+    const trip = await advanceTrip(tripId, driverChat, action);
+    if (!trip) {
+      return bot.answerCallbackQuery(cq.id, { text: '⚠️ That step isn’t available for this trip.', show_alert: true });
+    }
+    await bot.answerCallbackQuery(cq.id);
+    // the next step's keyboard arrives with notifyTransition — drop the old one
+    if (cq.message) {
+      await bot.editMessageReplyMarkup({ inline_keyboard: [] }, {
+        chat_id: cq.message.chat.id,
+        message_id: cq.message.message_id
+      }).catch(() => undefined);
+    }
+  }
+});
+
+// ────────────────────────────────────────────────────────────────────
+// 14) Rate the rider after a completed trip (rate:<tripId>:<1‑5|skip>)
+// ────────────────────────────────────────────────────────────────────
+bot.on('callback_query', async (cq: CallbackQuery) => {
+  const [prefix, tripId, value] = (cq.data ?? '').split(':');
+  if (prefix !== 'rate' || !cq.message) return;
+  const chat = String(cq.from.id);
+  const clearKeyboard = () => bot.editMessageReplyMarkup({ inline_keyboard: [] }, {
+    chat_id: cq.message!.chat.id, message_id: cq.message!.message_id
+  }).catch(() => undefined);
+
+  if (value === 'skip') {
+    await session.delete(chat);
+    await bot.answerCallbackQuery(cq.id);
+    return clearKeyboard();
+  }
+
+  const trip = await rateTrip(tripId, 'driver', chat, Number(value));
+  await bot.answerCallbackQuery(cq.id, trip
+    ? { text: '🙏 Thanks for rating your rider!' }
+    : { text: '⚠️ This trip can’t be rated (again).', show_alert: true });
+  await clearKeyboard();
+  if (!trip) return;
+
+  await session.set(chat, 'rate_comment');
+  return bot.sendMessage(chat, '💬 Anything to add? Send a short comment, or tap Skip.', {
+    reply_markup: { inline_keyboard: commentKeyboard(trip.id) }
+  });
+});
+
+// ────────────────────────────────────────────────────────────────────
+// 15) Trip chat — plain text during an active trip goes to the rider
+// ────────────────────────────────────────────────────────────────────
+const relayFailure = {
+  no_trip: undefined,
+  too_long: `❌ Messages to the rider are limited to ${MAX_RELAY_LENGTH} characters.`,
+  undelivered: '⚠️ Your message could not be delivered. Please try again.'
+};
+
+async function relayToRider(chat: string, text: string) {
+  const result = await relayMessage('driver', chat, text);
+  const reply = result.ok ? undefined : relayFailure[result.reason];
+  if (reply) await bot.sendMessage(chat, reply);
+}
+
+// ────────────────────────────────────────────────────────────────────
+// 16) Personal data — /mydata export, /deleteme erasure (erase:confirm|cancel)
+// ────────────────────────────────────────────────────────────────────
+const eraseFailure = {
+  not_found: '❌ We don’t hold any data for this chat.',
+  active_trip: '🚗 Finish or cancel your current trip first.',
+  open_balance: '💼 Your wallet still has a balance. Please contact support to settle it first.',
+  storage_failed: '⚠️ We couldn’t delete your documents just now. Please try again later.'
+};
+
+bot.onText(/^\/mydata$/, async (msg: Message) => {
+  const chat = String(msg.chat.id);
+  const data = await driverExport(chat);
+  if (!data) return bot.sendMessage(chat, eraseFailure.not_found);
+
+  const { buffer, filename } = exportFile('driver', data);
+  await bot.sendMessage(chat, '📦 Here is everything we hold about you.');
+  return bot.sendDocument(chat, buffer, {}, { filename, contentType: 'application/json' });
+});
+
+bot.onText(/^\/deleteme$/, async (msg: Message) => {
+  const chat = String(msg.chat.id);
+  const d = await Driver.findByChatId(chat);
+  if (!d) return bot.sendMessage(chat, eraseFailure.not_found);
+
+  return bot.sendMessage(chat,
+    '⚠️ <b>Delete my data</b>\n' +
+    'This deletes your profile, documents, vehicles and trip chats and closes your account. It can’t be undone.\n' +
+    'Trip, payment and wallet records are kept, without your details, for accounting.' +
+    (isSubscribed(d) ? '\nAny time left on your plan is forfeited.' : '') +
+    '\n\nSend /mydata first if you want a copy.',
+    {
+      parse_mode: 'HTML',
+      reply_markup: {
+        inline_keyboard: [
+          [{ text: '🗑 Delete everything', callback_data: 'erase:confirm' }],
+          [{ text: '↩️ Keep my account', callback_data: 'erase:cancel' }]
+        ]
+      }
+    }
+  );
+});
+
+bot.on('callback_query', async (cq: CallbackQuery) => {
+  const [prefix, action] = (cq.data ?? '').split(':');
+  if (prefix !== 'erase' || !cq.message) return;
+  const chat = String(cq.from.id);
+
+  await bot.editMessageReplyMarkup({ inline_keyboard: [] }, {
+    chat_id: cq.message.chat.id, message_id: cq.message.message_id
+  }).catch(() => undefined);
+  if (action !== 'confirm') return bot.answerCallbackQuery(cq.id, { text: '👍 Nothing was deleted.' });
+
+  const result = await eraseDriver(chat);
+  if (!result.ok) return bot.answerCallbackQuery(cq.id, { text: eraseFailure[result.reason], show_alert: true });
+
+  await session.delete(chat);
+  await bot.answerCallbackQuery(cq.id);
+  return bot.sendMessage(chat,
+    '✅ Your data has been deleted. Send /start if you ever want to register again.',
+    { reply_markup: { remove_keyboard: true } }
+  );
 });
 
 // ────────────────────────────────────────────────────────────────────
-// 10) Helper for admin approval — called by your admin API
+// 17) Helpers for admin review — called by the admin API (routes/admin.ts)
 // ────────────────────────────────────────────────────────────────────
 export async function sendApprovalLink(driver: DriverDocument) {
   if (!driver.chatId) return;
-  const url = `${process.env.APP_BASE_URL}/driver/login?chat=${driver.chatId}`;
+  const url = dashboardUrl(driver.chatId);
 
   // Step 1: Congratulate & prompt for PIN
   await bot.sendMessage(
@@ -308,7 +1022,7 @@ export async function sendApprovalLink(driver: DriverDocument) {
     `🔑 Please create your 4‑digit PIN now.`,
     { parse_mode: 'HTML' }
   );
-  session.set(driver.chatId, 'set_pin');
+  await session.set(driver.chatId, 'set_pin');
 
   // Step 2: Dashboard link
   await bot.sendMessage(
@@ -317,3 +1031,51 @@ export async function sendApprovalLink(driver: DriverDocument) {
     { disable_web_page_preview: true }
   );
 }
+
+/** Tell a driver which document was rejected and why, then ask for a new one. */
+export async function notifyDocumentRejected(driver: DriverDocument, key: DocKey, reason: string) {
+  if (!driver.chatId) return;
+  await bot.sendMessage(
+    driver.chatId,
+    `⚠️ Your <b>${escapeHtml(nice[key])}</b> was rejected.\n` +
+    `Reason: ${escapeHtml(reason)}`,
+    { parse_mode: 'HTML' }
+  );
+  // mid‑registration drivers are asked once all documents are in
+  if (driver.registrationStep === 'completed') await promptReupload(driver, key);
+}
+
+/** Tell a driver the admin verdict on one of their vehicles. */
+export async function notifyVehicleStatus(driver: DriverDocument, v: VehicleDocument) {
+  if (!driver.chatId) return;
+  const why = v.statusReason ? `\nReason: ${escapeHtml(v.statusReason)}` : '';
+  await bot.sendMessage(
+    driver.chatId,
+    `🚘 <b>${escapeHtml(vehicleLabel(v))}</b> is now <b>${v.status.toUpperCase()}</b>.${why}`,
+    { parse_mode: 'HTML', ...mainMenu(driver) }
+  );
+}
+
+/** Tell a driver their account was suspended or rejected. */
+export async function notifyDriverStatus(driver: DriverDocument) {
+  if (!driver.chatId) return;
+  const why = driver.statusReason ? `\nReason: ${escapeHtml(driver.statusReason)}` : '';
+  await bot.sendMessage(
+    driver.chatId,
+    `🔖 Your account status is now <b>${escapeHtml(driver.status.toUpperCase())}</b>.${why}`,
+    { parse_mode: 'HTML', ...mainMenu(driver) }
+  );
+}
+
+// ────────────────────────────────────────────────────────────────────
+// 18) Helpers for dashboard login — called by controllers/authController.ts
+// ────────────────────────────────────────────────────────────────────
+export async function notifyPinLocked(driver: DriverDocument, until: Date) {
+  if (!driver.chatId) return;
+  const time = until.toLocaleTimeString('en-ZA', { timeZone: 'Africa/Johannesburg', timeStyle: 'short' });
+  await bot.sendMessage(
+    driver.chatId,
+    `🔒 Too many wrong PIN attempts — dashboard login is locked until ${time}.\n` +
+    'If this wasn’t you, send /newpin to choose a new PIN.'
+  );
+}
@@ -0,0 +1,135 @@
+/**********************************************************************
+ * controllers/adminController.ts
+ * --------------------------------------------------------------------
+ *  Driver review for the admin API: filtering, per‑document verdicts
+ *  and account status changes (with the matching bot notifications).
+ *********************************************************************/
+
+import {
+  DOC_KEYS, DOC_LABELS, DocKey, Driver, DriverDocument, DriverFile, DriverStatus
+} from "../models/Driver.js";
+import { notifyDocumentRejected, notifyDriverStatus, sendApprovalLink } from "../bot.js";
+import { publish, rooms } from "../utils/realtime.js";
+import { getStorage } from "../utils/storage.js";
+
+export interface DriverFilters {
+  status?: string;
+  registrationStep?: string;
+  documentsComplete?: boolean;
+  flagged?: boolean;
+}
+
+/** Mongo query for the list filters; documentsComplete mirrors the virtual. */
+export function driverQuery(f: DriverFilters) {
+  const q: Record<string, unknown> = {};
+  if (f.status) q.status = f.status;
+  if (f.registrationStep) q.registrationStep = f.registrationStep;
+  if (f.flagged !== undefined) q["reviewFlag.at"] = { $exists: f.flagged };
+  if (f.documentsComplete !== undefined) {
+    const path = (k: DocKey) => `documents.${k}.cloudUrl`;
+    if (f.documentsComplete) q.$and = DOC_KEYS.map((k) => ({ [path(k)]: { $exists: true } }));
+    else q.$or = DOC_KEYS.map((k) => ({ [path(k)]: { $exists: false } }));
+  }
+  return q;
+}
+
+export async function listDrivers(f: DriverFilters, page = 1, limit = 50) {
+  const query = driverQuery(f);
+  const [drivers, total] = await Promise.all([
+    Driver.find(query).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+    Driver.countDocuments(query),
+  ]);
+  return { drivers: drivers.map(driverView), total, page, limit };
+}
+
+/** Stored files as JSON without their storage location. */
+const withoutLocation = (file: unknown) => {
+  const { cloudUrl, ...rest } = JSON.parse(JSON.stringify(file)) as Record<string, unknown>;
+  return rest;
+};
+
+/** JSON shape for the API — virtuals included, secrets left out. */
+export function driverView(d: DriverDocument) {
+  const { pin, __v, documents, ...rest } = d.toJSON({ virtuals: true }) as Record<string, unknown>;
+  const files: Record<string, unknown> = {};
+  for (const [key, file] of Object.entries(documents ?? {})) if (file) files[key] = withoutLocation(file);
+  return { ...rest, documents: files };
+}
+
+/**
+ * A stored file as JSON plus `viewUrl`, a short‑lived signed link. Files
+ * still on a public Cloudinary URL get none until jobs/privateFiles.ts
+ * has moved them.
+ */
+export async function fileView(file: DriverFile) {
+  const viewUrl = file.storageKey
+    ? await getStorage().signedUrl(file.storageKey, file.format)
+    : null;
+  return { ...withoutLocation(file), viewUrl };
+}
+
+/** Every required document, in upload order, flagged when missing. */
+export const documentList = (d: DriverDocument) =>
+  Promise.all(DOC_KEYS.map(async (key) => {
+    const file = d.documents[key];
+    return file
+      ? { key, label: DOC_LABELS[key], missing: false, ...(await fileView(file)) }
+      : { key, label: DOC_LABELS[key], missing: true };
+  }));
+
+/**
+ * Record an admin verdict on one document. A rejection is sent to the
+ * driver together with the reason.
+ */
+export async function reviewDocument(
+  d: DriverDocument,
+  key: DocKey,
+  verdict: { verified: true } | { verified: false; reason: string }
+) {
+  if (!d.documents[key]) return null;
+
+  d.set(`documents.${key}.verified`, verdict.verified);
+  d.set(`documents.${key}.reviewedAt`, new Date());
+  d.set(`documents.${key}.rejectedReason`, verdict.verified ? undefined : verdict.reason);
+  await d.save();
+
+  if (!verdict.verified) await notifyDocumentRejected(d, key, verdict.reason);
+  return d;
+}
+
+/**
+ * Set or clear the expiry date of an uploaded document. Reminders start
+ * over for the new date.
+ */
+export async function setDocumentExpiry(d: DriverDocument, key: DocKey, expiresAt: Date | null) {
+  if (!d.documents[key]) return null;
+
+  d.set(`documents.${key}.expiresAt`, expiresAt ?? undefined);
+  d.set(`documents.${key}.remindersSent`, undefined);
+  await d.save();
+  return d;
+}
+
+/** Clear a low‑rating flag once an admin has looked into it. */
+export async function clearReviewFlag(d: DriverDocument) {
+  d.set("reviewFlag", undefined);
+  await d.save();
+  return d;
+}
+
+/** Approve, suspend or reject a driver and let them know. */
+export async function setDriverStatus(
+  d: DriverDocument,
+  status: Exclude<DriverStatus, "pending">,
+  reason?: string
+) {
+  d.status = status;
+  d.statusReason = reason;
+  if (status !== "approved") d.isOnline = false;
+  await d.save();
+  publish(rooms.admin, "driver:status", { driverId: d.id, chatId: d.chatId, status, reason });
+
+  if (status === "approved") await sendApprovalLink(d);
+  else await notifyDriverStatus(d);
+  return d;
+}
@@ -0,0 +1,100 @@
+/**********************************************************************
+ * controllers/authController.ts
+ * --------------------------------------------------------------------
+ *  Driver dashboard login. Approved drivers set a 4‑digit PIN in the
+ *  bot; it expires after PIN_TTL_HOURS and too many wrong guesses lock
+ *  the login for PIN_LOCKOUT_MIN.
+ *********************************************************************/
+
+import bcrypt from "bcryptjs";
+import { Driver, DriverDocument } from "../models/Driver.js";
+import { notifyPinLocked } from "../bot.js";
+
+export const PIN_TTL_HOURS = Number(process.env.PIN_TTL_HOURS ?? 24);
+const MAX_ATTEMPTS = Number(process.env.PIN_MAX_ATTEMPTS ?? 5);
+const LOCKOUT_MS = Number(process.env.PIN_LOCKOUT_MIN ?? 15) * 60_000;
+
+export const isValidPin = (pin: string) => /^\d{4}$/.test(pin);
+
+/**
+ * Hash and store a new PIN; also lifts any lockout. Dashboard sessions
+ * carry the time their PIN was set, so a new PIN signs out old ones.
+ */
+export async function setPin(d: DriverDocument, pin: string) {
+  const now = Date.now();
+  d.set("pin", {
+    hash: await bcrypt.hash(pin, 10),
+    setAt: new Date(now),
+    expiresAt: new Date(now + PIN_TTL_HOURS * 60 * 60_000),
+    failedAttempts: 0,
+  });
+  await d.save();
+  return d;
+}
+
+/** True while a session issued for the PIN set at `pinSetAt` may be used. */
+export const pinSessionValid = (d: DriverDocument, pinSetAt: unknown) =>
+  !!d.pin?.hash &&
+  (d.pin.setAt?.getTime() ?? 0) === pinSetAt &&
+  !!d.pin.expiresAt && d.pin.expiresAt > new Date();
+
+export type PinCheck =
+  | { ok: true; driver: DriverDocument }
+  | { ok: false; reason: "unknown" | "no_pin" | "expired" | "wrong"; attemptsLeft?: number }
+  | { ok: false; reason: "locked"; lockedUntil: Date };
+
+/**
+ * Check a login attempt. The attempt is counted in the database before
+ * the PIN is compared, so parallel guesses can't slip past the limit.
+ */
+export async function verifyPin(chatId: string, pin: string): Promise<PinCheck> {
+  const d = await Driver.findByChatId(chatId);
+  if (!d || d.status !== "approved") return { ok: false, reason: "unknown" };
+  if (!d.pin?.hash) return { ok: false, reason: "no_pin" };
+
+  const now = new Date();
+  if (d.pin.lockedUntil && d.pin.lockedUntil > now) {
+    return { ok: false, reason: "locked", lockedUntil: d.pin.lockedUntil };
+  }
+  if (!d.pin.expiresAt || d.pin.expiresAt <= now) return { ok: false, reason: "expired" };
+
+  const reserved = await Driver.findOneAndUpdate(
+    {
+      _id: d._id,
+      "pin.failedAttempts": { $lt: MAX_ATTEMPTS },
+      $or: [{ "pin.lockedUntil": { $exists: false } }, { "pin.lockedUntil": { $lte: now } }],
+    },
+    { $inc: { "pin.failedAttempts": 1 } },
+    { new: true }
+  );
+  if (!reserved?.pin?.hash) {
+    // the last attempt is taken; lock unless that request already did
+    const locked = await Driver.findOneAndUpdate(
+      { _id: d._id, "pin.failedAttempts": { $gte: MAX_ATTEMPTS } },
+      { $set: { "pin.failedAttempts": 0, "pin.lockedUntil": new Date(now.getTime() + LOCKOUT_MS) } },
+      { new: true }
+    ) ?? await Driver.findById(d._id);
+    return { ok: false, reason: "locked", lockedUntil: locked?.pin?.lockedUntil ?? now };
+  }
+
+  if (isValidPin(pin) && (await bcrypt.compare(pin, reserved.pin.hash))) {
+    await Driver.updateOne(
+      { _id: d._id },
+      { $set: { "pin.failedAttempts": 0 }, $unset: { "pin.lockedUntil": 1 } }
+    );
+    return { ok: true, driver: d };
+  }
+
+  const attempts = reserved.pin.failedAttempts;
+  if (attempts < MAX_ATTEMPTS) return { ok: false, reason: "wrong", attemptsLeft: MAX_ATTEMPTS - attempts };
+
+  const lockedUntil = new Date(Date.now() + LOCKOUT_MS);
+  await Driver.updateOne(
+    { _id: d._id },
+    { $set: { "pin.failedAttempts": 0, "pin.lockedUntil": lockedUntil } }
+  );
+  await notifyPinLocked(d, lockedUntil).catch((err: unknown) =>
+    console.error("[auth] lockout notify failed:", err)
+  );
+  return { ok: false, reason: "locked", lockedUntil };
+}
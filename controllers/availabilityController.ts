@@ -0,0 +1,74 @@
+/**********************************************************************
+ * controllers/availabilityController.ts
+ * --------------------------------------------------------------------
+ *  Driver shift state (online / offline) and last known position.
+ *********************************************************************/
+
+import { Driver, DriverDocument } from "../models/Driver.js";
+import { ACTIVE_TRIP_STATUSES, TripRequest } from "../models/TripRequest.js";
+import { publish, rooms } from "../utils/realtime.js";
+import { trackDriver } from "./trackingController.js";
+
+const publishAvailability = (chatId: string, isOnline: boolean) =>
+  publish(rooms.admin, "driver:availability", { chatId, isOnline, at: new Date() });
+
+/**
+ * Toggle a driver on or off shift. A new shift forgets the last position,
+ * so trips are only offered once live location arrives for this one.
+ */
+export const setOnline = async (driver: DriverDocument, online: boolean) => {
+  driver.isOnline = online;
+  driver.onlineSince = online ? new Date() : undefined;
+  if (online) {
+    driver.location = undefined;
+    driver.locationUpdatedAt = undefined;
+  }
+  await driver.save();
+  publishAvailability(driver.chatId, online);
+  return driver;
+};
+
+/**
+ * Persist the latest position reported by an approved driver and share
+ * it with ops and, during a trip, with the trip room and the rider.
+ */
+export async function recordLocation(chatId: string, lat: number, lon: number) {
+  const at = new Date();
+  const driver = await Driver.findOneAndUpdate(
+    { chatId, status: "approved" },
+    { location: { type: "Point", coordinates: [lon, lat] }, locationUpdatedAt: at },
+    { new: true }
+  );
+  if (!driver) return driver;
+
+  publish(rooms.admin, "driver:location", { chatId, lat, lon, at });
+  const trip = await TripRequest.findOne({ driverChatId: chatId, status: { $in: ACTIVE_TRIP_STATUSES } });
+  if (trip) {
+    publish(rooms.trip(trip.id), "trip:location", { tripId: trip.id, lat, lon, at });
+    await trackDriver(trip, { lat, lon });
+  }
+  return driver;
+}
+
+/**
+ * Set offline every online driver whose location has not been refreshed
+ * within `maxAgeMs`. Returns the drivers that were switched off.
+ */
+export async function markStaleDriversOffline(maxAgeMs: number) {
+  const cutoff = new Date(Date.now() - maxAgeMs);
+  const stale = await Driver.find({
+    isOnline: true,
+    $or: [
+      { locationUpdatedAt: { $lt: cutoff } },
+      { locationUpdatedAt: { $exists: false }, onlineSince: { $lt: cutoff } },
+    ],
+  });
+  if (!stale.length) return stale;
+
+  await Driver.updateMany(
+    { _id: { $in: stale.map((d) => d._id) } },
+    { $set: { isOnline: false }, $unset: { onlineSince: 1 } }
+  );
+  for (const d of stale) publishAvailability(d.chatId, false);
+  return stale;
+}
@@ -0,0 +1,97 @@
+/**********************************************************************
+ * controllers/dashboardController.ts
+ * --------------------------------------------------------------------
+ *  Data for the driver dashboard: profile and documents, the current
+ *  trip, trip history, earnings for today and this week (from the wallet
+ *  ledger, after commission), and the wallet with its weekly statements.
+ *  Days and weeks (Mon–Sun) follow South African time.
+ *********************************************************************/
+
+import { DriverDocument } from "../models/Driver.js";
+import { ACTIVE_TRIP_STATUSES, TripRequest } from "../models/TripRequest.js";
+import { WalletEntry } from "../models/WalletEntry.js";
+import { documentList } from "./adminController.js";
+import { latestStatements, walletBalance } from "./walletController.js";
+import { subscriptionStatus } from "./subscriptionController.js";
+
+const SAST_OFFSET_MS = 2 * 60 * 60_000;          // no daylight saving in SA
+const DAY_MS = 24 * 60 * 60_000;
+export const HISTORY_PAGE_SIZE = 20;
+
+/** Start (as a UTC instant) of the SAST day and Monday‑based week holding `now`. */
+export function periodStarts(now = new Date()) {
+  const localMidnight = Math.floor((now.getTime() + SAST_OFFSET_MS) / DAY_MS) * DAY_MS;
+  const weekday = (new Date(localMidnight).getUTCDay() + 6) % 7;   // Monday = 0
+  return {
+    today: new Date(localMidnight - SAST_OFFSET_MS),
+    week: new Date(localMidnight - weekday * DAY_MS - SAST_OFFSET_MS),
+  };
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Trips settled into the wallet since `since`: gross fares, commission
+ * and what the driver keeps. Read from the wallet ledger so the numbers
+ * match the balance and the weekly statements.
+ */
+export async function earningsSince(driverChatId: string, since: Date) {
+  const [row] = await WalletEntry.aggregate<{ trips: number; fares: number; net: number }>([
+    {
+      $match: {
+        driverChatId,
+        type: { $in: ["trip_earning", "commission"] },
+        trip: { $exists: true },
+        createdAt: { $gte: since },
+      },
+    },
+    {
+      $group: {
+        _id: null,
+        trips: { $sum: 1 },
+        fares: { $sum: "$fare" },
+        // online: the credited share; cash: the fare kept less commission owed
+        net: {
+          $sum: {
+            $cond: [{ $eq: ["$type", "trip_earning"] }, "$amount", { $add: ["$fare", "$amount"] }],
+          },
+        },
+      },
+    },
+  ]);
+  const fares = round2(row?.fares ?? 0);
+  const total = round2(row?.net ?? 0);
+  return { trips: row?.trips ?? 0, fares, commission: round2(fares - total), total };
+}
+
+/** Everything the dashboard page renders for one driver. */
+export async function dashboardFor(d: DriverDocument, page = 1) {
+  const { today, week } = periodStarts();
+  const past = { driverChatId: d.chatId, status: { $in: ["completed", "cancelled"] } };
+
+  const [current, history, total, earnedToday, earnedWeek, balance, statements] = await Promise.all([
+    TripRequest.findOne({ driverChatId: d.chatId, status: { $in: ACTIVE_TRIP_STATUSES } })
+      .sort({ acceptedAt: -1 }),
+    TripRequest.find(past)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * HISTORY_PAGE_SIZE)
+      .limit(HISTORY_PAGE_SIZE),
+    TripRequest.countDocuments(past),
+    earningsSince(d.chatId, today),
+    earningsSince(d.chatId, week),
+    walletBalance(d.chatId),
+    latestStatements(d.chatId),
+  ]);
+
+  return {
+    driver: d,
+    documents: await documentList(d),
+    subscription: subscriptionStatus(d),
+    current,
+    history,
+    page,
+    pages: Math.max(1, Math.ceil(total / HISTORY_PAGE_SIZE)),
+    earnings: { today: earnedToday, week: earnedWeek },
+    wallet: { balance, statements },
+  };
+}
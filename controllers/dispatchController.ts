@@ -0,0 +1,375 @@
+/**********************************************************************
+ * controllers/dispatchController.ts
+ * --------------------------------------------------------------------
+ *  Offers a pending TripRequest to nearby online drivers in waves.
+ *  • each wave widens the search radius (DISPATCH_RADII_KM)
+ *  • unanswered offers expire after DISPATCH_WAVE_TIMEOUT_SEC
+ *  • every offer is logged on trip.offers so ops can see who was asked
+ *  • offers and search progress are published to the driver / admin
+ *    socket rooms (utils/realtime.ts)
+ *  • the next wave is due at dispatch.nextWaveAt; a timer here moves
+ *    the search on, and jobs/dispatchRecovery.ts resumes searches whose
+ *    timer was lost to a restart or another instance
+ *********************************************************************/
+
+import mongoose from "mongoose";
+import { Driver } from "../models/Driver.js";
+import { TripRequest, TripRequestDocument } from "../models/TripRequest.js";
+import { bot } from "../bot.js";
+import { RiderPort } from "../riderPort.js";
+import { escapeHtml } from "../utils/escapeHtml.js";
+import { formatZar } from "../utils/fare.js";
+import { publish, rooms } from "../utils/realtime.js";
+import { subscribedQuery } from "./subscriptionController.js";
+
+const RADII_KM = (process.env.DISPATCH_RADII_KM ?? "2,5,10")
+  .split(",")
+  .map(Number)
+  .filter((n) => n > 0);
+const WAVE_SIZE = Number(process.env.DISPATCH_WAVE_SIZE ?? 3);
+const WAVE_TIMEOUT_MS = Number(process.env.DISPATCH_WAVE_TIMEOUT_SEC ?? 30) * 1000;
+
+/** tripId → timer that escalates to the next wave (dispatch.nextWaveAt) */
+const timers = new Map<string, NodeJS.Timeout>();
+
+interface Candidate {
+  chatId: string;
+  distanceKm: number;
+}
+
+/* ------------------------------------------------------------------ */
+/* 1 ▸  candidate selection                                           */
+/* ------------------------------------------------------------------ */
+async function findCandidates(
+  trip: TripRequestDocument,
+  radiusKm: number,
+  exclude: string[]
+): Promise<Candidate[]> {
+  const nearby = await Driver.findNearby(trip.pickup.lat!, trip.pickup.lon!, radiusKm, {
+    query: { chatId: { $nin: exclude }, vehicleClass: trip.vehicleClass, ...subscribedQuery() },
+    limit: WAVE_SIZE,
+  });
+  return nearby.map((d) => ({ chatId: d.chatId, distanceKm: d.distanceM / 1000 }));
+}
+
+const offerText = (trip: TripRequestDocument, distanceKm: number) =>
+  `🚕 <b>New trip request</b>\n` +
+  `📍 Pickup: ${distanceKm.toFixed(1)} km away\n` +
+  `🏁 Drop‑off: ${escapeHtml(trip.dropoff ?? "—")}\n` +
+  (trip.fare?.estimate != null ? `💵 Fare: ${formatZar(trip.fare.estimate)}\n` : "") +
+  `\n` +
+  `⏱ Respond within ${Math.round(WAVE_TIMEOUT_MS / 1000)} s.`;
+
+/* ------------------------------------------------------------------ */
+/* 2 ▸  wave handling                                                 */
+/* ------------------------------------------------------------------ */
+function clearTimer(tripId: string) {
+  const t = timers.get(tripId);
+  if (t) clearTimeout(t);
+  timers.delete(tripId);
+}
+
+/** Tell the drivers' dashboards an offer is no longer open. */
+const closeOffers = (tripId: string, driverChatIds: string[], reason: string) =>
+  publish(driverChatIds.map(rooms.driver), "offer:closed", { tripId, reason });
+
+/** Mark the still‑pending offers as expired and grey out their buttons. */
+async function expireOffers(trip: TripRequestDocument) {
+  const stale = trip.offers.filter((o) => o.response === "pending");
+  if (!stale.length) return;
+
+  await TripRequest.updateOne(
+    { _id: trip._id },
+    {
+      $set: {
+        "offers.$[o].response": "expired",
+        "offers.$[o].respondedAt": new Date(),
+      },
+    },
+    { arrayFilters: [{ "o.response": "pending" }] }
+  );
+  closeOffers(trip.id, stale.map((o) => o.driverChatId), "expired");
+
+  await Promise.all(
+    stale
+      .filter((o) => o.messageId)
+      .map((o) =>
+        bot
+          .editMessageText("⌛ This trip offer has expired.", {
+            chat_id: o.driverChatId,
+            message_id: o.messageId,
+          })
+          .catch(() => undefined)
+      )
+  );
+}
+
+async function markUnmatched(trip: TripRequestDocument, reason: string) {
+  await TripRequest.updateOne(
+    { _id: trip._id, "dispatch.state": "searching" },
+    {
+      $set: {
+        "dispatch.state": "unmatched",
+        "dispatch.endedAt": new Date(),
+        "dispatch.reason": reason,
+      },
+      $unset: { "dispatch.nextWaveAt": 1 },
+    }
+  );
+  publish(rooms.admin, "trip:dispatch", { tripId: trip.id, state: "unmatched", reason });
+  await RiderPort.sendMessage(
+    trip.riderChatId,
+    "😔 No drivers are available near you right now. Please try again in a few minutes."
+  ).catch((err: unknown) => console.error("[dispatch] rider notify failed:", err));
+}
+
+const waveDeadline = () => new Date(Date.now() + WAVE_TIMEOUT_MS);
+
+/**
+ * Move a search on from `fromWave`. Claimed in the database, so of the
+ * timer, an all‑declined wave and the recovery job only one gets to run
+ * the next wave. Unless `early`, only once dispatch.nextWaveAt is due.
+ */
+async function escalate(tripId: string, fromWave: number, early = false): Promise<void> {
+  clearTimer(tripId);
+  const trip = await TripRequest.findOneAndUpdate(
+    {
+      _id: tripId,
+      status: "pending",
+      "dispatch.state": "searching",
+      "dispatch.wave": fromWave,
+      ...(early
+        ? {}
+        : { $or: [{ "dispatch.nextWaveAt": { $lte: new Date() } }, { "dispatch.nextWaveAt": { $exists: false } }] }),
+    },
+    { $set: { "dispatch.wave": fromWave + 1, "dispatch.nextWaveAt": waveDeadline() } },
+    { new: true }
+  );
+  if (trip) await runWave(trip, fromWave + 1);
+}
+
+/** Offer `trip`, already claimed for `wave`, to the next ring of drivers. */
+async function runWave(trip: TripRequestDocument, wave: number): Promise<void> {
+  clearTimer(trip.id);
+  await expireOffers(trip);
+
+  if (wave >= RADII_KM.length) {
+    const maxKm = RADII_KM[RADII_KM.length - 1] ?? 0;
+    return markUnmatched(trip, `no driver accepted within ${maxKm} km`);
+  }
+
+  const radiusKm = RADII_KM[wave];
+  const alreadyOffered = trip.offers.map((o) => o.driverChatId);
+  const candidates = await findCandidates(trip, radiusKm, alreadyOffered);
+
+  await TripRequest.updateOne({ _id: trip._id }, { $set: { "dispatch.radiusKm": radiusKm } });
+  publish(rooms.admin, "trip:dispatch", {
+    tripId: trip.id, state: "searching", wave, radiusKm, candidates: candidates.length,
+  });
+
+  // nobody in range → escalate straight away
+  if (!candidates.length) return escalate(trip.id, wave, true);
+
+  for (const { chatId, distanceKm } of candidates) {
+    try {
+      const msg = await bot.sendMessage(chatId, offerText(trip, distanceKm), {
+        parse_mode: "HTML",
+        reply_markup: {
+          inline_keyboard: [[
+            { text: "✅ Accept", callback_data: `accept:${trip.id}` },
+            { text: "❌ Decline", callback_data: `decline:${trip.id}` },
+          ]],
+        },
+      });
+      await TripRequest.updateOne(
+        { _id: trip._id },
+        {
+          $push: {
+            offers: {
+              driverChatId: chatId,
+              wave,
+              radiusKm,
+              distanceKm,
+              messageId: msg.message_id,
+              offeredAt: new Date(),
+              response: "pending",
+            },
+          },
+        }
+      );
+      publish(rooms.driver(chatId), "offer:new", {
+        tripId: trip.id,
+        dropoff: trip.dropoff,
+        distanceKm,
+        fare: trip.fare?.estimate,
+        expiresAt: new Date(Date.now() + WAVE_TIMEOUT_MS),
+      });
+    } catch (err) {
+      console.error(`[dispatch] offer to ${chatId} failed:`, err);
+    }
+  }
+
+  // the wave's time starts once its offers are out
+  const nextWaveAt = waveDeadline();
+  await TripRequest.updateOne(
+    { _id: trip._id, "dispatch.state": "searching", "dispatch.wave": wave },
+    { $set: { "dispatch.nextWaveAt": nextWaveAt } }
+  );
+  timers.set(trip.id, setTimeout(() => {
+    escalate(trip.id, wave).catch((err) =>
+      console.error("[dispatch] wave escalation failed:", err)
+    );
+  }, nextWaveAt.getTime() - Date.now()));
+}
+
+/* ------------------------------------------------------------------ */
+/* 3 ▸  public API                                                    */
+/* ------------------------------------------------------------------ */
+
+/** Start offering a trip once its pickup is known. */
+export async function dispatchTrip(tripId: string) {
+  const trip = await TripRequest.findOneAndUpdate(
+    {
+      _id: tripId,
+      status: "pending",
+      "pickup.lat": { $exists: true },
+      "dispatch.state": { $in: ["idle", "unmatched"] },
+    },
+    {
+      $set: {
+        dispatch: { state: "searching", wave: 0, startedAt: new Date(), nextWaveAt: waveDeadline() },
+      },
+    },
+    { new: true }
+  );
+  if (!trip) return;
+  await runWave(trip, 0);
+}
+
+/**
+ * Searches whose next wave is overdue, e.g. because the instance that
+ * ran them restarted, or that predate dispatch.nextWaveAt. Each moves on
+ * as if its timer had fired. Resolves to the number found.
+ */
+export async function resumeOverdueSearches() {
+  const overdue = await TripRequest.find({
+    status: "pending",
+    "dispatch.state": "searching",
+    $or: [{ "dispatch.nextWaveAt": { $lte: new Date() } }, { "dispatch.nextWaveAt": { $exists: false } }],
+  }).select("dispatch.wave");
+  for (const trip of overdue) {
+    await escalate(trip.id, trip.dispatch.wave).catch((err) =>
+      console.error(`[dispatch] resuming ${trip.id} failed:`, err)
+    );
+  }
+  return overdue.length;
+}
+
+export type AcceptResult =
+  | { ok: true; trip: TripRequestDocument }
+  | { ok: false; reason: "not_found" | "taken" | "unavailable" | "ineligible" };
+
+/** Pull the remaining open offers and tell those drivers the trip is gone. */
+async function withdrawOffers(trip: TripRequestDocument, notice: string) {
+  const open = trip.offers.filter((o) => o.response === "pending");
+  if (!open.length) return;
+
+  await TripRequest.updateOne(
+    { _id: trip._id },
+    {
+      $set: {
+        "offers.$[o].response": "withdrawn",
+        "offers.$[o].respondedAt": new Date(),
+      },
+    },
+    { arrayFilters: [{ "o.response": "pending" }] }
+  );
+  closeOffers(trip.id, open.map((o) => o.driverChatId), "withdrawn");
+
+  await Promise.all(
+    open
+      .filter((o) => o.messageId)
+      .map((o) =>
+        bot
+          .editMessageText(notice, {
+            chat_id: o.driverChatId,
+            message_id: o.messageId,
+          })
+          .catch(() => undefined)
+      )
+  );
+}
+
+/**
+ * Driver tapped ✅ Accept on an offer.
+ * Compare‑and‑set via TripRequest.transition so only the first tap wins.
+ */
+export async function acceptOffer(tripId: string, driverChatId: string): Promise<AcceptResult> {
+  if (!mongoose.isValidObjectId(tripId)) return { ok: false, reason: "not_found" };
+
+  // the offer may predate a suspension, going offline or a lapsed plan
+  const driver = await Driver.findOne({
+    chatId: driverChatId, status: "approved", isOnline: true, ...subscribedQuery(),
+  });
+  if (!driver) {
+    await declineOffer(tripId, driverChatId);
+    return { ok: false, reason: "ineligible" };
+  }
+
+  const now = new Date();
+  const trip = await TripRequest.transition(tripId, "accepted", {
+    where: { offers: { $elemMatch: { driverChatId, response: "pending" } } },
+    set: {
+      driverChatId,
+      ...(driver.activeVehicle ? { vehicle: driver.activeVehicle } : {}),
+      "dispatch.state": "matched",
+      "dispatch.endedAt": now,
+      "offers.$[o].response": "accepted",
+      "offers.$[o].respondedAt": now,
+    },
+    arrayFilters: [{ "o.driverChatId": driverChatId }],
+  });
+
+  if (!trip) {
+    const current = await TripRequest.findById(tripId);
+    if (!current) return { ok: false, reason: "not_found" };
+    return {
+      ok: false,
+      reason: current.status === "accepted" && current.driverChatId !== driverChatId
+        ? "taken"
+        : "unavailable",
+    };
+  }
+
+  clearTimer(tripId);
+  await withdrawOffers(trip, "🚫 This trip has been taken by another driver.");
+  return { ok: true, trip };
+}
+
+/** Halt a search in progress (trip cancelled) and retract its open offers. */
+export async function stopDispatch(trip: TripRequestDocument) {
+  clearTimer(trip.id);
+  await withdrawOffers(trip, "🚫 This trip was cancelled.");
+}
+
+/** Driver tapped ❌ Decline — escalate early once the whole wave has declined. */
+export async function declineOffer(tripId: string, driverChatId: string) {
+  const trip = await TripRequest.findOneAndUpdate(
+    { _id: tripId },
+    {
+      $set: {
+        "offers.$[o].response": "declined",
+        "offers.$[o].respondedAt": new Date(),
+      },
+    },
+    {
+      new: true,
+      arrayFilters: [{ "o.driverChatId": driverChatId, "o.response": "pending" }],
+    }
+  );
+  if (!trip || trip.status !== "pending" || trip.dispatch.state !== "searching") return;
+
+  const wave = trip.dispatch.wave;
+  const waiting = trip.offers.some((o) => o.wave === wave && o.response === "pending");
+  if (!waiting) await escalate(tripId, wave, true);
+}
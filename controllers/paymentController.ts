@@ -0,0 +1,212 @@
+/**********************************************************************
+ * controllers/paymentController.ts
+ * --------------------------------------------------------------------
+ *  Trip payments. Every attempt is a Payment ledger entry; the trip only
+ *  carries a denormalised `payment.status` for quick checks.
+ *  • online: signed PayFast checkout, settled by a verified ITN
+ *  • cash:   recorded when chosen, settled when the trip completes
+ *  Completed, paid trips are then settled into the driver's wallet
+ *  (controllers/walletController.ts).
+ *  Drivers' platform subscriptions are paid online through the same
+ *  ledger and ITN (purpose "subscription").
+ *********************************************************************/
+
+import mongoose from "mongoose";
+import { RiderPort } from "../riderPort.js";
+import { Payment, PaymentDocument } from "../models/Payment.js";
+import { TripRequest, TripRequestDocument } from "../models/TripRequest.js";
+import { formatZar } from "../utils/fare.js";
+import { publish, rooms } from "../utils/realtime.js";
+import { buildCheckout, ItnCheck, PayfastFields, verifyItn } from "../utils/payfast.js";
+import { recordTripEarnings } from "./walletController.js";
+import { activateSubscription, planFor } from "./subscriptionController.js";
+
+const BASE_URL = process.env.APP_BASE_URL;
+
+/** What the rider owes: the final fare once known, else the estimate. */
+export const amountDue = (trip: TripRequestDocument) =>
+  trip.fare?.final ?? trip.fare?.estimate;
+
+/** Link sent to the rider; renders our checkout page for the trip. */
+export const paymentLinkFor = (tripId: string) =>
+  `${BASE_URL}/payment?trip=${encodeURIComponent(tripId)}`;
+
+/** Mirror a settled payment onto its trip. */
+const markTripPaid = (payment: PaymentDocument) =>
+  TripRequest.findOneAndUpdate(
+    { _id: payment.trip, "payment.status": { $ne: "paid" } },
+    {
+      $set: {
+        paymentMethod: payment.method,
+        "payment.status": "paid",
+        "payment.amount": payment.amount,
+        "payment.paidAt": new Date(),
+        "payment.provider": payment.provider,
+        "payment.providerRef": payment.providerRef,
+      },
+    },
+    { new: true }
+  );
+
+/* ------------------------------------------------------------------ */
+/* 1 ▸  online (PayFast)                                              */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Signed PayFast form for a trip. Reloading the page or submitting twice
+ * reuses the same Payment: the idempotency key is trip + amount. After a
+ * failed or cancelled attempt the rider gets a fresh one.
+ */
+export async function checkoutFor(trip: TripRequestDocument) {
+  const amount = amountDue(trip);
+  if (amount == null) throw new Error(`trip ${trip.id} has no fare`);
+
+  const payment = await Payment.attempt(`trip:${trip.id}:online:${amount.toFixed(2)}`, {
+    trip: trip._id,
+    riderChatId: trip.riderChatId,
+    driverChatId: trip.driverChatId,
+    method: "online",
+    amount,
+    provider: "payfast",
+    source: "checkout",
+  });
+
+  const ref = encodeURIComponent(trip.id);
+  return buildCheckout({
+    paymentId: payment.id,
+    amount,
+    itemName: `VayaRide trip ${trip.id.slice(-6)}`,
+    firstName: trip.riderName,
+    returnUrl: `${BASE_URL}/payment/return?trip=${ref}`,
+    cancelUrl: `${BASE_URL}/payment/cancel?trip=${ref}`,
+    notifyUrl: `${BASE_URL}/payment/notify`,
+  });
+}
+
+/**
+ * Handle a PayFast ITN. Only a verified COMPLETE notification credits the
+ * trip; duplicate or late callbacks fail the state check and do nothing.
+ */
+export async function handleItn(body: PayfastFields, sourceIp: string): Promise<ItnCheck> {
+  const id = body.m_payment_id;
+  const payment = mongoose.isValidObjectId(id) ? await Payment.findById(id) : null;
+  if (!payment) return { ok: false, reason: `unknown payment ${id}` };
+
+  const check = await verifyItn(body, sourceIp, payment.amount);
+  if (!check.ok) return check;
+
+  const opts = {
+    source: "itn",
+    note: `PayFast ${body.payment_status} (${body.pf_payment_id})`,
+    set: { providerRef: body.pf_payment_id },
+  };
+
+  switch (body.payment_status) {
+    case "COMPLETE": {
+      const paid = await Payment.transition(payment._id, "paid", opts);
+      if (!paid) {
+        const current = await Payment.findById(payment._id);
+        if (current?.state === "paid") return { ok: true };     // already settled — replay
+        // money taken for a payment we had given up on: ops must settle it
+        console.error(`[payment] COMPLETE for ${current?.state} payment ${payment.id} (${body.pf_payment_id}) not applied`);
+        publish(rooms.admin, "payment:unapplied", {
+          paymentId: payment.id, state: current?.state, providerRef: body.pf_payment_id, amount: payment.amount,
+        });
+        return { ok: true };
+      }
+      if (paid.purpose === "subscription") {
+        await activateSubscription(paid);
+        return { ok: true };
+      }
+
+      const trip = await markTripPaid(paid);
+      if (trip) {
+        await recordTripEarnings(trip);        // no‑op until the trip is completed
+        await RiderPort.sendMessage(
+          trip.riderChatId,
+          `✅ Payment of *${formatZar(paid.amount)}* received. Thank you!`,
+          { parse_mode: "Markdown" }
+        ).catch((err: unknown) => console.error("[payment] rider notify failed:", err));
+      }
+      return { ok: true };
+    }
+    case "PENDING":
+      await Payment.transition(payment._id, "pending", opts);
+      return { ok: true };
+    default:                               // FAILED, CANCELLED
+      await Payment.transition(payment._id, "failed", opts);
+      return { ok: true };
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/* 2 ▸  cash                                                          */
+/* ------------------------------------------------------------------ */
+
+/** Rider chose to pay the driver in cash. */
+export async function chooseCash(tripId: string, riderChatId: string) {
+  if (!mongoose.isValidObjectId(tripId)) return null;
+  const trip = await TripRequest.findOneAndUpdate(
+    { _id: tripId, riderChatId, "payment.status": "unpaid" },
+    { paymentMethod: "cash" },
+    { new: true }
+  );
+  if (!trip) return null;
+
+  const payment = await Payment.initiate(`trip:${trip.id}:cash`, {
+    trip: trip._id,
+    riderChatId,
+    method: "cash",
+    amount: amountDue(trip) ?? 0,
+    source: "rider",
+  });
+  await Payment.transition(payment._id, "pending", { source: "rider", note: "cash on completion" });
+  return trip;
+}
+
+/**
+ * A trip completed without a payment method was paid to the driver, so
+ * it is treated as cash and its commission recorded. Left alone while
+ * PayFast reports an online payment for it as pending.
+ */
+export async function assumeCash(trip: TripRequestDocument) {
+  if (trip.paymentMethod || trip.payment?.status === "paid") return trip;
+  if (await Payment.exists({ trip: trip._id, method: "online", state: "pending" })) return trip;
+  return (await chooseCash(trip.id, trip.riderChatId)) ?? trip;
+}
+
+/** Trip completed on cash: the driver collected the final fare. */
+export async function settleCash(trip: TripRequestDocument) {
+  const payment = await Payment.findOne({ idempotencyKey: `trip:${trip.id}:cash` });
+  if (!payment) return null;
+
+  // rider switched to paying online after choosing cash
+  if (trip.payment?.status === "paid") {
+    await Payment.transition(payment._id, "failed", { source: "driver", note: "paid online instead" });
+    return null;
+  }
+
+  const paid = await Payment.transition(payment._id, "paid", {
+    source: "driver",
+    note: "collected in cash",
+    set: { amount: amountDue(trip) ?? payment.amount, driverChatId: trip.driverChatId },
+  });
+  return paid && markTripPaid(paid);
+}
+
+/* ------------------------------------------------------------------ */
+/* 3 ▸  driver subscriptions                                          */
+/* ------------------------------------------------------------------ */
+
+/** Signed PayFast form for a subscription payment created in the bot. */
+export function subscriptionCheckoutFor(payment: PaymentDocument) {
+  const plan = planFor(payment.plan);
+  return buildCheckout({
+    paymentId: payment.id,
+    amount: payment.amount,
+    itemName: `VayaRide ${plan?.label ?? ""} driver plan`.replace(/\s+/g, " "),
+    returnUrl: `${BASE_URL}/payment/return`,
+    cancelUrl: `${BASE_URL}/payment/cancel`,
+    notifyUrl: `${BASE_URL}/payment/notify`,
+  });
+}
@@ -0,0 +1,216 @@
+/**********************************************************************
+ * controllers/privacyController.ts
+ * --------------------------------------------------------------------
+ *  Personal data requests from the bots and the retention job.
+ *  • /mydata   → everything held about the user as one JSON file
+ *  • /deleteme → files deleted, personal fields erased; trips, payments
+ *                and wallet records are kept under a pseudonym so the
+ *                books still balance
+ *  • unfinished driver registrations are purged after
+ *    RETENTION_INCOMPLETE_DAYS (jobs/dataRetention.ts)
+ *********************************************************************/
+
+import { randomUUID } from "crypto";
+import { Model } from "mongoose";
+import { Driver, DriverDocument } from "../models/Driver.js";
+import { Rider } from "../models/Rider.js";
+import { Vehicle, VehicleDocument } from "../models/Vehicle.js";
+import { ACTIVE_TRIP_STATUSES, TripRequest } from "../models/TripRequest.js";
+import { TripMessage } from "../models/TripMessage.js";
+import { Payment } from "../models/Payment.js";
+import { WalletEntry } from "../models/WalletEntry.js";
+import { PayoutStatement } from "../models/PayoutStatement.js";
+import { publish, rooms } from "../utils/realtime.js";
+import { getStorage } from "../utils/storage.js";
+
+export type DataSubject = "driver" | "rider";
+
+export type EraseResult =
+  | { ok: true }
+  | { ok: false; reason: "not_found" | "active_trip" | "open_balance" | "storage_failed" };
+
+/** Storage folder holding a driver's documents (see bot.ts). */
+const driverFolder = (chatId: string) => `vayaride/${chatId}`;
+
+/* ------------------------------------------------------------------ */
+/* 1 ▸  export                                                        */
+/* ------------------------------------------------------------------ */
+const messagesOf = (chatId: string) =>
+  TripMessage.find({ $or: [{ senderChatId: chatId }, { recipientChatId: chatId }] })
+    .select("-senderChatId -recipientChatId")
+    .sort({ createdAt: 1 })
+    .lean();
+
+/**
+ * Everything stored about a driver. Trips leave out the rider's details,
+ * which are the rider's data, not the driver's.
+ */
+export async function driverExport(chatId: string) {
+  const d = await Driver.findByChatId(chatId);
+  if (!d) return null;
+  const { pin, __v, ...profile } = d.toJSON() as Record<string, unknown>;
+
+  const [vehicles, trips, messages, payments, wallet, statements] = await Promise.all([
+    Vehicle.find({ driverChatId: chatId }).lean(),
+    TripRequest.find({ driverChatId: chatId })
+      .select("-riderChatId -riderName -riderCName -offers -tracking -dispatch").lean(),
+    messagesOf(chatId),
+    Payment.find({ driverChatId: chatId }).lean(),
+    WalletEntry.find({ driverChatId: chatId }).sort({ createdAt: 1 }).lean(),
+    PayoutStatement.find({ driverChatId: chatId }).sort({ periodStart: 1 }).lean(),
+  ]);
+  return { profile, vehicles, trips, messages, payments, wallet, statements };
+}
+
+/** Everything stored about a rider; trips leave out the driver's details. */
+export async function riderExport(chatId: string) {
+  const [rider, trips, messages, payments] = await Promise.all([
+    Rider.findOne({ chatId }).lean(),
+    TripRequest.find({ riderChatId: chatId })
+      .select("-driverChatId -vehicle -offers -tracking -dispatch").lean(),
+    messagesOf(chatId),
+    Payment.find({ riderChatId: chatId }).lean(),
+  ]);
+  if (!rider && !trips.length) return null;
+  return { profile: rider, trips, messages, payments };
+}
+
+/** The export as a JSON attachment for Telegram's sendDocument. */
+export function exportFile(subject: DataSubject, data: Record<string, unknown>) {
+  const exportedAt = new Date();
+  return {
+    buffer: Buffer.from(JSON.stringify({ subject, exportedAt, ...data }, null, 2)),
+    filename: `vayaride-${subject}-data-${exportedAt.toISOString().slice(0, 10)}.json`,
+  };
+}
+
+/* ------------------------------------------------------------------ */
+/* 2 ▸  erasure                                                       */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Swap a chat id for its pseudonym on kept records, including inside
+ * idempotency keys such as `payout:<chatId>:<ref>`.
+ */
+const pseudonymise = (model: Model<any>, field: string, chatId: string, alias: string) =>
+  model.updateMany({ [field]: chatId }, [
+    {
+      $set: {
+        [field]: alias,
+        idempotencyKey: {
+          $replaceOne: { input: { $ifNull: ["$idempotencyKey", ""] }, find: chatId, replacement: alias },
+        },
+      },
+    },
+  ]);
+
+/** Rating comments are written by or about a person, so they go too. */
+const RATING_COMMENTS = { "ratings.byRider.comment": 1, "ratings.byDriver.comment": 1 };
+
+/**
+ * Erase a driver: uploaded files, vehicles and chat logs are deleted, the
+ * Driver record is stripped of personal fields, and trips and financial
+ * records move to a pseudonym. Refused while a trip is in progress or
+ * the wallet is not settled, since a payout needs a way to reach them.
+ */
+export async function eraseDriver(chatId: string): Promise<EraseResult> {
+  const d = await Driver.findByChatId(chatId);
+  if (!d) return { ok: false, reason: "not_found" };
+  if (await TripRequest.exists({ driverChatId: chatId, status: { $in: ACTIVE_TRIP_STATUSES } })) {
+    return { ok: false, reason: "active_trip" };
+  }
+  if ((await WalletEntry.balanceOf(chatId)) !== 0) return { ok: false, reason: "open_balance" };
+
+  try {
+    await getStorage().deletePrefix(driverFolder(chatId));
+  } catch (err) {
+    console.error(`[privacy] file deletion for driver ${d.id} failed:`, err);
+    return { ok: false, reason: "storage_failed" };
+  }
+
+  const alias = `erased:${randomUUID()}`;
+  await Promise.all([
+    Vehicle.deleteMany({ driverChatId: chatId }),
+    TripMessage.deleteMany({ $or: [{ senderChatId: chatId }, { recipientChatId: chatId }] }),
+    TripRequest.updateMany({ driverChatId: chatId }, { $set: { driverChatId: alias }, $unset: RATING_COMMENTS }),
+    TripRequest.updateMany(
+      { "offers.driverChatId": chatId },
+      { $set: { "offers.$[o].driverChatId": alias } },
+      { arrayFilters: [{ "o.driverChatId": chatId }] }
+    ),
+    pseudonymise(Payment, "driverChatId", chatId, alias),
+    pseudonymise(WalletEntry, "driverChatId", chatId, alias),
+    PayoutStatement.updateMany({ driverChatId: chatId }, { $set: { driverChatId: alias } }),
+  ]);
+  await Driver.updateOne(
+    { _id: d._id },
+    {
+      $set: { chatId: alias, isOnline: false, erasedAt: new Date() },
+      $unset: {
+        fullName: 1, phone: 1, telegramUsername: 1, statusReason: 1, onlineSince: 1,
+        location: 1, locationUpdatedAt: 1, activeVehicle: 1, vehicleClass: 1,
+        reviewFlag: 1, pin: 1, documents: 1,
+      },
+    }
+  );
+
+  publish(rooms.admin, "driver:erased", { driverId: d.id });
+  return { ok: true };
+}
+
+/**
+ * Erase a rider: the profile, unsent drafts and chat logs are deleted;
+ * past trips keep fare and payment details under a pseudonym but lose
+ * names and places. Refused while a ride is booked or in progress.
+ */
+export async function eraseRider(chatId: string): Promise<EraseResult> {
+  const busy = await TripRequest.exists({
+    riderChatId: chatId,
+    $or: [
+      { status: { $in: [...ACTIVE_TRIP_STATUSES, "scheduled"] } },
+      { status: "pending", "fare.confirmedAt": { $exists: true } },
+    ],
+  });
+  if (busy) return { ok: false, reason: "active_trip" };
+
+  const rider = await Rider.findOne({ chatId });
+  if (!rider && !(await TripRequest.exists({ riderChatId: chatId }))) return { ok: false, reason: "not_found" };
+
+  const alias = `erased:${randomUUID()}`;
+  await TripRequest.deleteMany({ riderChatId: chatId, status: "pending" });
+  await Promise.all([
+    TripMessage.deleteMany({ $or: [{ senderChatId: chatId }, { recipientChatId: chatId }] }),
+    TripRequest.updateMany(
+      { riderChatId: chatId },
+      {
+        $set: { riderChatId: alias, riderName: "Erased rider" },
+        $unset: { riderCName: 1, dropoff: 1, dropoffLocation: 1, pickup: 1, ...RATING_COMMENTS },
+      }
+    ),
+    pseudonymise(Payment, "riderChatId", chatId, alias),
+    rider?.deleteOne(),
+  ]);
+
+  publish(rooms.admin, "rider:erased", { riderId: rider?.id });
+  return { ok: true };
+}
+
+/* ------------------------------------------------------------------ */
+/* 3 ▸  retention                                                     */
+/* ------------------------------------------------------------------ */
+export const RETENTION_INCOMPLETE_DAYS = Number(process.env.RETENTION_INCOMPLETE_DAYS ?? 30);
+
+/** Drop a registration that was never finished, files included. */
+export async function purgeIncompleteDriver(d: DriverDocument) {
+  await getStorage().deletePrefix(driverFolder(d.chatId));
+  await Promise.all([
+    Vehicle.deleteMany({ driverChatId: d.chatId }),
+    d.deleteOne(),
+  ]);
+}
+
+/** Drop a vehicle whose set‑up in the bot was abandoned. */
+export async function purgeDraftVehicle(v: VehicleDocument) {
+  await getStorage().deletePrefix(`${driverFolder(v.driverChatId)}/vehicle-${v.id}-`);
+  await v.deleteOne();
+}
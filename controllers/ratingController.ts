@@ -0,0 +1,115 @@
+/**********************************************************************
+ * controllers/ratingController.ts
+ * --------------------------------------------------------------------
+ *  Two‑way trip ratings. After completion the rider rates the driver
+ *  and the driver rates the rider (1–5 stars, optional comment). Each
+ *  new rating refreshes the rated party's rolling average over their
+ *  last RATING_WINDOW trips; drivers who fall below
+ *  DRIVER_RATING_FLAG_BELOW are flagged for admin review.
+ *********************************************************************/
+
+import mongoose from "mongoose";
+import { Driver } from "../models/Driver.js";
+import { Rider } from "../models/Rider.js";
+import { TripRequest, TripRequestDocument } from "../models/TripRequest.js";
+
+export type Rater = "rider" | "driver";
+
+const WINDOW = Number(process.env.RATING_WINDOW ?? 20);
+const FLAG_BELOW = Number(process.env.DRIVER_RATING_FLAG_BELOW ?? 4.0);
+const FLAG_MIN_RATINGS = Number(process.env.DRIVER_RATING_FLAG_MIN ?? 5);
+const MAX_COMMENT = 500;
+
+/* ------------------------------------------------------------------ */
+/* 1 ▸  keyboard (rate:<tripId>:<1‑5|skip>)                           */
+/* ------------------------------------------------------------------ */
+export const ratingKeyboard = (tripId: string) => [
+  [1, 2, 3, 4, 5].map((n) => ({ text: `${n}⭐`, callback_data: `rate:${tripId}:${n}` })),
+];
+
+export const commentKeyboard = (tripId: string) => [
+  [{ text: "Skip", callback_data: `rate:${tripId}:skip` }],
+];
+
+/* ------------------------------------------------------------------ */
+/* 2 ▸  recording                                                     */
+/* ------------------------------------------------------------------ */
+
+// rider rates the driver (ratings.byRider), driver rates the rider (ratings.byDriver)
+const field = (by: Rater) => (by === "rider" ? "ratings.byRider" : "ratings.byDriver");
+const party = (by: Rater) => (by === "rider" ? "riderChatId" : "driverChatId");
+
+/**
+ * Store a star rating once per trip and side. Resolves to the trip, or
+ * null if it isn't theirs, isn't completed or was already rated.
+ */
+export async function rateTrip(tripId: string, by: Rater, chatId: string, stars: number) {
+  if (!mongoose.isValidObjectId(tripId) || !Number.isInteger(stars) || stars < 1 || stars > 5) return null;
+
+  const trip = await TripRequest.findOneAndUpdate(
+    { _id: tripId, [party(by)]: chatId, status: "completed", [field(by)]: { $exists: false } },
+    { $set: { [field(by)]: { stars, at: new Date() } } },
+    { new: true }
+  );
+  if (!trip) return null;
+
+  if (by === "rider") await refreshDriverRating(trip.driverChatId!);
+  else await refreshRiderRating(trip.riderChatId);
+  return trip;
+}
+
+/** Latest trip this party rated without leaving a comment yet. */
+export const awaitingComment = (by: Rater, chatId: string) =>
+  TripRequest.findOne({
+    [party(by)]: chatId,
+    [`${field(by)}.at`]: { $gt: new Date(Date.now() - 60 * 60_000) },
+    [`${field(by)}.comment`]: { $exists: false },
+  }).sort({ [`${field(by)}.at`]: -1 });
+
+export async function addComment(trip: TripRequestDocument, by: Rater, comment: string) {
+  await TripRequest.updateOne(
+    { _id: trip._id, [`${field(by)}.comment`]: { $exists: false } },
+    { $set: { [`${field(by)}.comment`]: comment.trim().slice(0, MAX_COMMENT) } }
+  );
+}
+
+/* ------------------------------------------------------------------ */
+/* 3 ▸  aggregates                                                    */
+/* ------------------------------------------------------------------ */
+
+/** Rolling average over the last WINDOW ratings, plus the total count. */
+async function rollingRating(match: Record<string, unknown>, path: string) {
+  const [recent, count] = await Promise.all([
+    TripRequest.find(match).sort({ [`${path}.at`]: -1 }).limit(WINDOW).select(path),
+    TripRequest.countDocuments(match),
+  ]);
+  const stars = recent.map((t) => t.get(`${path}.stars`) as number);
+  const average = stars.length ? stars.reduce((a, b) => a + b, 0) / stars.length : undefined;
+  return { average, count };
+}
+
+export async function refreshDriverRating(driverChatId: string) {
+  const rating = await rollingRating(
+    { driverChatId, "ratings.byRider.stars": { $exists: true } },
+    "ratings.byRider"
+  );
+  const d = await Driver.findOneAndUpdate({ chatId: driverChatId }, { rating }, { new: true });
+
+  // stays flagged until an admin clears it
+  if (d && !d.reviewFlag?.at && rating.count >= FLAG_MIN_RATINGS && rating.average! < FLAG_BELOW) {
+    d.reviewFlag = {
+      at: new Date(),
+      reason: `Average rating ${rating.average!.toFixed(2)} over the last ${Math.min(WINDOW, rating.count)} trips`,
+    };
+    await d.save();
+  }
+  return d;
+}
+
+export async function refreshRiderRating(riderChatId: string) {
+  const rating = await rollingRating(
+    { riderChatId, "ratings.byDriver.stars": { $exists: true } },
+    "ratings.byDriver"
+  );
+  return Rider.findOneAndUpdate({ chatId: riderChatId }, { rating }, { new: true });
+}
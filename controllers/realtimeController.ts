@@ -0,0 +1,39 @@
+/**********************************************************************
+ * controllers/realtimeController.ts
+ * --------------------------------------------------------------------
+ *  Room membership for authenticated sockets (middleware/socketAuth.ts).
+ *  • admin  — registrations, driver status/location, every trip event
+ *  • driver — own offers and trip status changes
+ *  • trip   — status and driver location for one trip; joined on
+ *             request by its driver or an admin
+ *  Events are published through utils/realtime.ts.
+ *********************************************************************/
+
+import mongoose from "mongoose";
+import { Socket } from "socket.io";
+import { TripRequest } from "../models/TripRequest.js";
+import { SocketIdentity } from "../middleware/socketAuth.js";
+import { rooms } from "../utils/realtime.js";
+
+type Ack = (res: { ok: boolean; error?: string }) => void;
+
+async function canWatchTrip(who: SocketIdentity, tripId: string) {
+  if (!mongoose.isValidObjectId(tripId)) return false;
+  if (who.role === "admin") return true;
+  return !!(await TripRequest.exists({ _id: tripId, driverChatId: who.chatId }));
+}
+
+export function onConnection(socket: Socket) {
+  const who = socket.data as SocketIdentity;
+  socket.join(who.role === "admin" ? rooms.admin : rooms.driver(who.chatId));
+
+  socket.on("trip:join", async (tripId: unknown, ack?: Ack) => {
+    const ok = typeof tripId === "string" && (await canWatchTrip(who, tripId).catch(() => false));
+    if (ok) socket.join(rooms.trip(tripId as string));
+    if (typeof ack === "function") ack(ok ? { ok } : { ok, error: "forbidden" });
+  });
+
+  socket.on("trip:leave", (tripId: unknown) => {
+    if (typeof tripId === "string") socket.leave(rooms.trip(tripId));
+  });
+}
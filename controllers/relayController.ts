@@ -0,0 +1,65 @@
+/**********************************************************************
+ * controllers/relayController.ts
+ * --------------------------------------------------------------------
+ *  Masked rider ⇄ driver chat. While a trip is accepted, arrived or
+ *  started, plain text sent to one bot is forwarded through the other,
+ *  tagged with the trip. Neither side learns the other's number or
+ *  Telegram account, and every message is stored in TripMessage.
+ *********************************************************************/
+
+import { bot } from "../bot.js";
+import { RiderPort } from "../riderPort.js";
+import { ACTIVE_TRIP_STATUSES, TripRequest, TripRequestDocument } from "../models/TripRequest.js";
+import { RelayParty, TripMessage } from "../models/TripMessage.js";
+import { escapeHtml } from "../utils/escapeHtml.js";
+
+export const MAX_RELAY_LENGTH = 1000;
+
+export type RelayResult =
+  | { ok: true }
+  | { ok: false; reason: "no_trip" | "too_long" | "undelivered" };
+
+const LABEL: Record<RelayParty, string> = { rider: "Rider", driver: "Driver" };
+
+/** Short reference shown to both parties, e.g. "#4F9A2C". */
+export const tripTag = (trip: TripRequestDocument) => `#${trip.id.slice(-6).toUpperCase()}`;
+
+/** The sender's trip that currently has an open chat, if any. */
+export function openChatFor(from: RelayParty, chatId: string) {
+  const who = from === "rider" ? { riderChatId: chatId } : { driverChatId: chatId };
+  return TripRequest.findOne({ ...who, status: { $in: ACTIVE_TRIP_STATUSES } })
+    .sort({ createdAt: -1 });
+}
+
+/**
+ * Forward `text` to the other party of the sender's active trip. The
+ * message is stored before delivery so failed sends are kept as well.
+ */
+export async function relayMessage(from: RelayParty, chatId: string, text: string): Promise<RelayResult> {
+  const trip = await openChatFor(from, chatId);
+  if (!trip) return { ok: false, reason: "no_trip" };
+  if (text.length > MAX_RELAY_LENGTH) return { ok: false, reason: "too_long" };
+
+  const recipientChatId = from === "rider" ? trip.driverChatId! : trip.riderChatId;
+  const message = await TripMessage.create({
+    trip: trip._id, from, senderChatId: chatId, recipientChatId, text,
+  });
+
+  const body = `💬 <b>${LABEL[from]}</b> · trip ${tripTag(trip)}\n${escapeHtml(text)}`;
+  const send = from === "rider" ? bot.sendMessage.bind(bot) : RiderPort.sendMessage;
+  try {
+    await send(recipientChatId, body, { parse_mode: "HTML" });
+    message.deliveredAt = new Date();
+    await message.save();
+    return { ok: true };
+  } catch (err: unknown) {
+    console.error("[relay] delivery failed:", err);
+    message.error = err instanceof Error ? err.message : String(err);
+    await message.save();
+    return { ok: false, reason: "undelivered" };
+  }
+}
+
+/** Full conversation of a trip, oldest first (admin / disputes). */
+export const tripMessages = (tripId: unknown) =>
+  TripMessage.find({ trip: tripId }).sort({ createdAt: 1 }).lean();
@@ -0,0 +1,55 @@
+/**********************************************************************
+ * controllers/scheduleController.ts
+ * --------------------------------------------------------------------
+ *  Advance bookings. A confirmed booking waits in status `scheduled`
+ *  until DISPATCH_LEAD_MIN before pickup, when jobs/scheduledRides.ts
+ *  releases it to dispatch like any other confirmed ride.
+ *********************************************************************/
+
+import { TripRequest } from "../models/TripRequest.js";
+
+export const DISPATCH_LEAD_MIN = Number(process.env.SCHEDULE_DISPATCH_LEAD_MIN ?? 20);
+export const MIN_AHEAD_MIN = Number(process.env.SCHEDULE_MIN_AHEAD_MIN ?? 60);
+export const MAX_AHEAD_DAYS = Number(process.env.SCHEDULE_MAX_DAYS ?? 7);
+export const MAX_UPCOMING = Number(process.env.SCHEDULE_MAX_UPCOMING ?? 3);
+
+const TZ = "Africa/Johannesburg";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** YYYY‑MM‑DD of `d` in SAST. */
+const sastDay = (d: Date) => d.toLocaleDateString("en-CA", { timeZone: TZ });
+
+export const formatPickup = (d: Date) =>
+  d.toLocaleString("en-ZA", {
+    timeZone: TZ, weekday: "short", day: "numeric", month: "short", hour: "2-digit", minute: "2-digit",
+  });
+
+/**
+ * Pickup time typed by the rider — "2026-10-21 07:30", "today 18:00" or
+ * "tomorrow 7:30" — read as SAST (fixed +02:00). Null if unreadable.
+ */
+export function parsePickupTime(text: string, now = new Date()): Date | null {
+  const m = text.trim().toLowerCase().match(/^(today|tomorrow|\d{4}-\d{2}-\d{2})\s+(\d{1,2}):(\d{2})$/);
+  if (!m) return null;
+  const [, dayText, hh, mm] = m;
+  if (Number(hh) > 23 || Number(mm) > 59) return null;
+
+  const day =
+    dayText === "today" ? sastDay(now)
+    : dayText === "tomorrow" ? sastDay(new Date(now.getTime() + DAY_MS))
+    : dayText;
+  const at = new Date(`${day}T${hh.padStart(2, "0")}:${mm}:00+02:00`);
+  // rejects impossible dates such as 2026-02-30, which Date rolls over
+  return !isNaN(at.getTime()) && sastDay(at) === day ? at : null;
+}
+
+/** Why a pickup time can't be booked, or null if it can. */
+export function pickupTimeProblem(at: Date, now = Date.now()): "too_soon" | "too_far" | null {
+  if (at.getTime() < now + MIN_AHEAD_MIN * 60_000) return "too_soon";
+  if (at.getTime() > now + MAX_AHEAD_DAYS * DAY_MS) return "too_far";
+  return null;
+}
+
+/** The rider's confirmed advance bookings, soonest first. */
+export const upcomingFor = (riderChatId: string) =>
+  TripRequest.find({ riderChatId, status: "scheduled" }).sort({ scheduledFor: 1 });
@@ -0,0 +1,114 @@
+/**********************************************************************
+ * controllers/subscriptionController.ts
+ * --------------------------------------------------------------------
+ *  Platform fee. Drivers buy a daily, weekly or monthly plan from the
+ *  driver bot and pay through PayFast; a settled payment extends
+ *  `subscription.paidUntil`. Only drivers with a current subscription
+ *  can go online or receive trip offers.
+ *********************************************************************/
+
+import { bot } from "../bot.js";
+import { Driver, DriverDocument } from "../models/Driver.js";
+import { Payment, PaymentDocument } from "../models/Payment.js";
+import { formatZar } from "../utils/fare.js";
+
+export interface SubscriptionPlan {
+  key:   string
+  label: string
+  days:  number
+  price: number        // ZAR
+}
+
+const DEFAULT_PLANS: SubscriptionPlan[] = [
+  { key: "daily",   label: "Daily",   days: 1,  price: 30 },
+  { key: "weekly",  label: "Weekly",  days: 7,  price: 180 },
+  { key: "monthly", label: "Monthly", days: 30, price: 650 },
+];
+
+/** Override the whole list with SUBSCRIPTION_PLANS_JSON. */
+export const PLANS: SubscriptionPlan[] = process.env.SUBSCRIPTION_PLANS_JSON
+  ? JSON.parse(process.env.SUBSCRIPTION_PLANS_JSON)
+  : DEFAULT_PLANS;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BASE_URL = process.env.APP_BASE_URL;
+
+export const planFor = (key?: string) => PLANS.find((p) => p.key === key);
+
+export const isSubscribed = (d: DriverDocument, at = new Date()) =>
+  !!d.subscription?.paidUntil && d.subscription.paidUntil > at;
+
+/** Extra Driver query for drivers that may receive offers right now. */
+export const subscribedQuery = () => ({ "subscription.paidUntil": { $gt: new Date() } });
+
+/** Inline keyboard with one button per plan (callback `sub:<plan>`). */
+export const planKeyboard = () =>
+  PLANS.map((p) => [{ text: `${p.label} · ${formatZar(p.price)}`, callback_data: `sub:${p.key}` }]);
+
+const untilText = (d: Date) =>
+  d.toLocaleString("en-ZA", { timeZone: "Africa/Johannesburg", dateStyle: "medium", timeStyle: "short" });
+
+/** One line describing the driver's subscription. */
+export function subscriptionStatus(d: DriverDocument) {
+  if (!isSubscribed(d)) return "⛔ No active subscription.";
+  const plan = planFor(d.subscription!.plan);
+  return `✅ ${plan?.label ?? "Subscription"} plan active until ${untilText(d.subscription!.paidUntil!)}.`;
+}
+
+/* ------------------------------------------------------------------ */
+/* 1 ▸  checkout                                                      */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Payment for one plan purchase. Tapping the same plan again before it
+ * is paid reuses the payment: the key includes the current paidUntil,
+ * which only moves once a payment settles. After a failed or cancelled
+ * payment the next tap starts a new attempt.
+ */
+export function startSubscriptionPayment(d: DriverDocument, plan: SubscriptionPlan) {
+  const current = d.subscription?.paidUntil?.getTime() ?? 0;
+  return Payment.attempt(`sub:${d.chatId}:${plan.key}:${current}`, {
+    purpose: "subscription",
+    plan: plan.key,
+    driverChatId: d.chatId,
+    method: "online",
+    amount: plan.price,
+    provider: "payfast",
+    source: "driver",
+  });
+}
+
+/** Link sent to the driver; renders the checkout page for the payment. */
+export const subscriptionLinkFor = (paymentId: string) =>
+  `${BASE_URL}/payment/subscription?payment=${encodeURIComponent(paymentId)}`;
+
+/* ------------------------------------------------------------------ */
+/* 2 ▸  activation (called for a verified PayFast ITN)                */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Extend the driver's subscription by the plan paid for. Renewing early
+ * adds on to the current period instead of starting over.
+ */
+export async function activateSubscription(payment: PaymentDocument) {
+  const plan = planFor(payment.plan);
+  const d = payment.driverChatId ? await Driver.findByChatId(payment.driverChatId) : null;
+  if (!plan || !d) {
+    console.error(`[subscription] payment ${payment.id}: unknown plan or driver`);
+    return null;
+  }
+
+  const from = isSubscribed(d) ? d.subscription!.paidUntil!.getTime() : Date.now();
+  d.set("subscription", {
+    plan: plan.key,
+    paidUntil: new Date(from + plan.days * DAY_MS),
+    renewedAt: new Date(),
+    remindersSent: undefined,
+  });
+  await d.save();
+
+  await bot.sendMessage(d.chatId,
+    `✅ Payment of ${formatZar(payment.amount)} received.\n${subscriptionStatus(d)}`
+  ).catch((err: unknown) => console.error("[subscription] driver notify failed:", err));
+  return d;
+}
@@ -0,0 +1,128 @@
+/**********************************************************************
+ * controllers/trackingController.ts
+ * --------------------------------------------------------------------
+ *  Live location between the parties of a trip.
+ *  • driver → rider: while the driver heads to pickup, the rider bot
+ *    shares the driver's position as a live pin and keeps a distance /
+ *    ETA message up to date; one alert fires when the driver is close
+ *  • rider → driver: a location the rider sends during a trip is
+ *    delivered by the driver bot
+ *********************************************************************/
+
+import { bot } from "../bot.js";
+import { RiderPort } from "../riderPort.js";
+import { ACTIVE_TRIP_STATUSES, TripRequest, TripRequestDocument } from "../models/TripRequest.js";
+import { haversineKm, LatLon } from "../utils/geo.js";
+
+const AVG_SPEED_KMH = Number(process.env.DRIVER_AVG_SPEED_KMH ?? 30);
+const NEAR_METERS = Number(process.env.DRIVER_NEAR_METERS ?? 300);
+const REFRESH_MS = Number(process.env.TRACKING_REFRESH_SEC ?? 20) * 1000;
+const LIVE_PERIOD_SEC = 3600;             // Telegram's lifetime for the rider's pin
+
+const html = { parse_mode: "HTML" };
+const logFail = (what: string) => (err: unknown) =>
+  console.error(`[tracking] ${what} failed:`, err);
+
+/** Straight‑line ETA at the average city speed, in whole minutes. */
+export const etaMinutes = (km: number) => Math.max(1, Math.ceil((km / AVG_SPEED_KMH) * 60));
+
+const distanceLabel = (km: number) =>
+  km < 1 ? `${Math.round(km * 10) * 100} m` : `${km.toFixed(1)} km`;
+
+const etaText = (km: number) =>
+  `🚗 Your driver is <b>${distanceLabel(km)}</b> away · ETA ~<b>${etaMinutes(km)} min</b>`;
+
+/* ------------------------------------------------------------------ */
+/* 1 ▸  driver → rider                                                */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Show the rider where their driver is. Only applies while the trip is
+ * `accepted`; refreshes are throttled to one per TRACKING_REFRESH_SEC,
+ * the "almost there" alert is sent once.
+ */
+export async function trackDriver(trip: TripRequestDocument, pos: LatLon) {
+  const { lat, lon } = trip.pickup;
+  if (trip.status !== "accepted" || lat == null || lon == null) return;
+  const km = haversineKm(pos, { lat, lon });
+  const rider = trip.riderChatId;
+
+  if (km * 1000 <= NEAR_METERS) {
+    const first = await TripRequest.findOneAndUpdate(
+      { _id: trip._id, "tracking.nearAt": { $exists: false } },
+      { $set: { "tracking.nearAt": new Date() } }
+    );
+    if (first) {
+      await RiderPort.sendMessage(rider,
+        "📍 <b>Your driver is almost there.</b> Please make your way to the pickup point.", html)
+        .catch(logFail("near alert"));
+    }
+  }
+
+  // claim this refresh so concurrent updates don't send duplicate pins
+  const now = new Date();
+  const claimed = await TripRequest.findOneAndUpdate(
+    {
+      _id: trip._id,
+      status: "accepted",
+      $or: [
+        { "tracking.updatedAt": { $exists: false } },
+        { "tracking.updatedAt": { $lt: new Date(now.getTime() - REFRESH_MS) } },
+      ],
+    },
+    { $set: { "tracking.updatedAt": now } },
+    { new: true }
+  );
+  if (!claimed) return;
+  const { locationMessageId, etaMessageId } = claimed.tracking ?? {};
+  const ids: Record<string, number> = {};
+
+  if (locationMessageId) {
+    await RiderPort.editMessageLiveLocation(rider, locationMessageId, pos.lat, pos.lon)
+      .catch(() => undefined);           // pin expired or unchanged
+  } else {
+    const pin = await RiderPort.sendLocation(rider, pos.lat, pos.lon, { live_period: LIVE_PERIOD_SEC })
+      .catch(logFail("live location"));
+    if (pin) ids["tracking.locationMessageId"] = pin.message_id;
+  }
+
+  if (etaMessageId) {
+    await RiderPort.editMessageText(rider, etaMessageId, etaText(km), html)
+      .catch(() => undefined);           // "message is not modified"
+  } else {
+    const eta = await RiderPort.sendMessage(rider, etaText(km), html).catch(logFail("eta"));
+    if (eta) ids["tracking.etaMessageId"] = eta.message_id;
+  }
+
+  if (Object.keys(ids).length) await TripRequest.updateOne({ _id: trip._id }, { $set: ids });
+}
+
+/** Stop the live pin and retire the ETA once the driver is no longer en route. */
+export async function stopTracking(trip: TripRequestDocument) {
+  const { locationMessageId, etaMessageId } = trip.tracking ?? {};
+  if (locationMessageId) {
+    await RiderPort.stopMessageLiveLocation(trip.riderChatId, locationMessageId)
+      .catch(() => undefined);
+  }
+  if (etaMessageId) {
+    const text = trip.status === "cancelled" ? "🚗 Driver tracking ended." : "🚗 Your driver has arrived.";
+    await RiderPort.editMessageText(trip.riderChatId, etaMessageId, text)
+      .catch(() => undefined);
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/* 2 ▸  rider → driver                                                */
+/* ------------------------------------------------------------------ */
+
+/** Pass a location the rider sent to the driver of their active trip. */
+export async function relayRiderLocation(riderChatId: string, pos: LatLon) {
+  const trip = await TripRequest.findOne({
+    riderChatId, status: { $in: ACTIVE_TRIP_STATUSES },
+  });
+  if (!trip?.driverChatId) return null;
+
+  await bot.sendMessage(trip.driverChatId, "📍 The rider shared their location:");
+  await bot.sendLocation(trip.driverChatId, pos.lat, pos.lon);
+  return trip;
+}
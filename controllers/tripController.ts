@@ -0,0 +1,244 @@
+/**********************************************************************
+ * controllers/tripController.ts
+ * --------------------------------------------------------------------
+ *  Trip lifecycle after dispatch: arrived → started → completed, and
+ *  cancellation by rider, driver or system. Status moves are validated
+ *  by TripRequest.transition; this module notifies both parties.
+ *********************************************************************/
+
+import mongoose from "mongoose";
+import { bot } from "../bot.js";
+import { RiderPort } from "../riderPort.js";
+import { Driver } from "../models/Driver.js";
+import { Vehicle } from "../models/Vehicle.js";
+import { ACTIVE_TRIP_STATUSES, CancelledBy, TripRequest, TripRequestDocument } from "../models/TripRequest.js";
+import { stopDispatch } from "./dispatchController.js";
+import { assumeCash, settleCash } from "./paymentController.js";
+import { ratingKeyboard } from "./ratingController.js";
+import { stopTracking, trackDriver } from "./trackingController.js";
+import { recordTripEarnings } from "./walletController.js";
+import { vehicleLabel } from "./vehicleController.js";
+import { escapeHtml } from "../utils/escapeHtml.js";
+import { computeFare, formatZar, ratesFor } from "../utils/fare.js";
+
+/* ------------------------------------------------------------------ */
+/* 1 ▸  cancellation reasons (code → label)                           */
+/* ------------------------------------------------------------------ */
+export const CANCEL_REASONS = {
+  rider: {
+    changed_mind: "Changed my mind",
+    too_long:     "Driver is taking too long",
+    wrong_pickup: "Wrong pickup location",
+    other:        "Other",
+  },
+  driver: {
+    no_show:       "Rider did not show up",
+    vehicle_issue: "Vehicle problem",
+    unsafe:        "Felt unsafe",
+    other:         "Other",
+  },
+} as const;
+
+type Party = keyof typeof CANCEL_REASONS;
+
+/** callback_data prefix per bot: driver bot uses "trip", rider bot "ride". */
+const PREFIX: Record<Party, string> = { driver: "trip", rider: "ride" };
+
+export function cancelReasonLabel(by: Party, code: string) {
+  return (CANCEL_REASONS[by] as Record<string, string>)[code];
+}
+
+export function cancelReasonKeyboard(tripId: string, by: Party) {
+  return Object.entries(CANCEL_REASONS[by]).map(([code, label]) => [
+    { text: label, callback_data: `${PREFIX[by]}:cancel:${tripId}:${code}` },
+  ]);
+}
+
+/* ------------------------------------------------------------------ */
+/* 2 ▸  keyboards                                                     */
+/* ------------------------------------------------------------------ */
+
+/** Inline keyboard with the driver's next step for a trip. */
+export function driverActions(trip: TripRequestDocument) {
+  const id = trip.id;
+  const cancel = [{ text: "❌ Cancel trip", callback_data: `trip:cancel:${id}` }];
+  switch (trip.status) {
+    case "accepted":
+      return [[{ text: "📍 I’ve arrived", callback_data: `trip:arrived:${id}` }], cancel];
+    case "arrived":
+      return [[{ text: "▶️ Start trip", callback_data: `trip:started:${id}` }], cancel];
+    case "started":
+      return [[{ text: "🏁 Complete trip", callback_data: `trip:completed:${id}` }]];
+    default:
+      return [];
+  }
+}
+
+/** Inline keyboard for the rider while a trip can still be cancelled. */
+export function riderActions(trip: TripRequestDocument) {
+  return ["scheduled", "pending", "accepted", "arrived"].includes(trip.status)
+    ? [[{ text: "❌ Cancel ride", callback_data: `ride:cancel:${trip.id}` }]]
+    : [];
+}
+
+/** A rider's confirmed booking still searching, or a trip in progress. */
+export const openTripFor = (riderChatId: string) =>
+  TripRequest.findOne({
+    riderChatId,
+    status: { $in: ["pending", ...ACTIVE_TRIP_STATUSES] },
+    "fare.confirmedAt": { $exists: true },
+    "dispatch.state": { $ne: "unmatched" },
+  }).sort({ createdAt: -1 });
+
+/* ------------------------------------------------------------------ */
+/* 3 ▸  notifications                                                 */
+/* ------------------------------------------------------------------ */
+/** Trip chat (controllers/relayController.ts) is open while the trip is active. */
+const CHAT_OPEN = {
+  driver: "💬 Messages you send here go to the rider until the trip ends; numbers stay private.",
+  rider: "💬 Reply here to message your driver; numbers stay private.",
+};
+const CHAT_CLOSED = "💬 Trip chat closed.";
+
+const logFail = (who: string) => (err: unknown) =>
+  console.error(`[trip] ${who} notify failed:`, err);
+
+/** Tell rider and driver about the trip's current status. */
+export async function notifyTransition(trip: TripRequestDocument) {
+  const html = { parse_mode: "HTML" };
+  const toRider = (text: string, opts: object = {}) =>
+    RiderPort.sendMessage(trip.riderChatId, text, { ...html, ...opts }).catch(logFail("rider"));
+  const toDriver = (text: string, opts: object = {}) =>
+    trip.driverChatId
+      ? bot.sendMessage(trip.driverChatId, text, { ...html, ...opts }).catch(logFail("driver"))
+      : undefined;
+  const withKeyboard = (rows: object[][]) =>
+    rows.length ? { reply_markup: { inline_keyboard: rows } } : {};
+
+  switch (trip.status) {
+    case "accepted": {
+      await toDriver(`👍 Heading to pick up <b>${escapeHtml(trip.riderName)}</b>!\n${CHAT_OPEN.driver}`);
+      if (trip.driverChatId && trip.pickup.lat != null && trip.pickup.lon != null) {
+        await bot.sendLocation(trip.driverChatId, trip.pickup.lat, trip.pickup.lon)
+          .catch(logFail("driver"));
+      }
+      await toDriver("📡 Keep sharing your live location so the rider can see you coming.\nTap below when you reach the pickup point.", withKeyboard(driverActions(trip)));
+
+      const [driver, vehicle] = await Promise.all([
+        Driver.findByChatId(trip.driverChatId!),
+        trip.vehicle ? Vehicle.findById(trip.vehicle) : null,
+      ]);
+      const info = (driver?.fullName
+        ? `👤 ${escapeHtml(driver.fullName.split(" ")[0])}`
+        : "👤 Details unavailable") +
+        (vehicle ? `\n🚘 ${escapeHtml(vehicleLabel(vehicle))}` : "");
+      await toRider(`🚗 <b>Driver is coming!</b>\n${info}\n${CHAT_OPEN.rider}`,
+        withKeyboard(riderActions(trip)));
+
+      const [lon, lat] = driver?.location?.coordinates ?? [];
+      if (lat != null && lon != null) await trackDriver(trip, { lat, lon }).catch(logFail("rider"));
+      return;
+    }
+
+    case "arrived":
+      await stopTracking(trip);
+      await toDriver("📍 Marked as arrived. Start the trip once the rider is on board.",
+        withKeyboard(driverActions(trip)));
+      return toRider("📍 <b>Your driver has arrived</b> at the pickup point.",
+        withKeyboard(riderActions(trip)));
+
+    case "started":
+      await toDriver("▶️ Trip started. Drive safely!", withKeyboard(driverActions(trip)));
+      return toRider("🚦 Your trip has started. Enjoy the ride!");
+
+    case "completed": {
+      const fare = trip.fare?.final != null ? `\n💵 Fare: <b>${formatZar(trip.fare.final)}</b>` : "";
+      const rate = withKeyboard(ratingKeyboard(trip.id));
+      await toDriver(`🏁 Trip completed. Thank you!${fare}\n${CHAT_CLOSED}\n\n⭐ How was your rider?`, rate);
+      return toRider(`🏁 <b>Trip completed.</b> Thanks for riding with VayaRide!${fare}\n${CHAT_CLOSED}\n\n⭐ How was your driver?`, rate);
+    }
+
+    case "cancelled": {
+      await stopTracking(trip);
+      const { by, reason } = trip.cancellation ?? { by: "system", reason: "" };
+      const why = reason ? ` (${escapeHtml(reason)})` : "";
+      const closed = trip.driverChatId ? `\n${CHAT_CLOSED}` : "";
+      if (by === "rider") {
+        await toDriver(`❌ The rider cancelled this trip${why}.${closed}`);
+        return toRider(`✅ Your ride has been cancelled.${closed}`);
+      }
+      if (by === "driver") {
+        await toDriver(`✅ Trip cancelled.${closed}`);
+        return toRider(`❌ Your driver cancelled the trip${why}.${closed}\nSend /ride to book again.`);
+      }
+      await toDriver(`❌ This trip was cancelled${why}.${closed}`);
+      return toRider(`❌ Your ride was cancelled${why}.${closed}\nSend /ride to book again.`);
+    }
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/* 4 ▸  actions                                                       */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Re‑price a finished trip with the actual ride time; distance and surge
+ * stay as quoted when the rider confirmed.
+ */
+function finalFare(trip: TripRequestDocument) {
+  const fare = trip.fare!;
+  const minutes = trip.startedAt && trip.completedAt
+    ? Math.ceil((trip.completedAt.getTime() - trip.startedAt.getTime()) / 60_000)
+    : fare.durationMin;
+  return computeFare(ratesFor(fare.city, trip.vehicleClass), fare.distanceKm, minutes, fare.surge);
+}
+
+/** Driver‑side progress. Resolves to null if the move is not allowed. */
+export async function advanceTrip(
+  tripId: string,
+  driverChatId: string,
+  to: "arrived" | "started" | "completed"
+) {
+  if (!mongoose.isValidObjectId(tripId)) return null;
+  const trip = await TripRequest.transition(tripId, to, { where: { driverChatId } });
+  if (!trip) return null;
+
+  if (to === "completed" && trip.fare?.estimate != null) {
+    trip.set("fare.final", finalFare(trip));
+    await trip.save();
+  }
+  if (to === "completed") {
+    const billed = await assumeCash(trip);
+    const settled = billed.paymentMethod === "cash" ? await settleCash(billed) : null;
+    await recordTripEarnings(settled ?? billed);
+  }
+  await notifyTransition(trip);
+  return trip;
+}
+
+/**
+ * Cancel a trip. Riders and drivers may only cancel their own trip;
+ * `actorChatId` is ignored for system cancellations.
+ */
+export async function cancelTrip(
+  tripId: string,
+  by: CancelledBy,
+  reason: string,
+  actorChatId?: string
+) {
+  if (!mongoose.isValidObjectId(tripId)) return null;
+  const where =
+    by === "rider" ? { riderChatId: actorChatId }
+    : by === "driver" ? { driverChatId: actorChatId }
+    : {};
+
+  const trip = await TripRequest.transition(tripId, "cancelled", {
+    where,
+    set: { cancellation: { by, reason } },
+  });
+  if (!trip) return null;
+
+  await stopDispatch(trip);
+  await notifyTransition(trip);
+  return trip;
+}
@@ -0,0 +1,178 @@
+/**********************************************************************
+ * controllers/vehicleController.ts
+ * --------------------------------------------------------------------
+ *  Driver vehicles. A driver registers one or more vehicles in the bot
+ *  (/vehicles), each with its own documents and admin review, and picks
+ *  an approved one when going online. The active vehicle's class is
+ *  copied onto the Driver so dispatch can filter on it.
+ *********************************************************************/
+
+import { Driver, DriverDocument } from "../models/Driver.js";
+import {
+  CLASS_MIN_SEATS, VEHICLE_CLASSES, VEHICLE_CLASS_LABELS, VEHICLE_DOC_KEYS, Vehicle, VehicleDocument
+} from "../models/Vehicle.js";
+import { notifyVehicleStatus } from "../bot.js";
+import { publish, rooms } from "../utils/realtime.js";
+import { setOnline } from "./availabilityController.js";
+import { fileView } from "./adminController.js";
+
+/** Plates are stored upper‑case without spaces or dashes. */
+export const normalizePlate = (text: string) => text.toUpperCase().replace(/[\s-]+/g, "");
+
+export const isValidPlate = (plate: string) => /^[A-Z0-9]{3,10}$/.test(plate);
+
+/** "Silver Toyota Corolla · CA123456 (Economy)"; see legacyVehicle for the fallback */
+export const vehicleLabel = (v: VehicleDocument) =>
+  ([v.color, v.make, v.vehicleModel].filter(Boolean).join(" ") || "Vehicle from registration") +
+  (v.plate ? ` · ${v.plate}` : "") +
+  (v.vehicleClass ? ` (${VEHICLE_CLASS_LABELS[v.vehicleClass]})` : "");
+
+/** Classes a vehicle with this many passenger seats may be listed in. */
+export const classesFor = (seats: number) =>
+  VEHICLE_CLASSES.filter((c) => seats >= CLASS_MIN_SEATS[c]);
+
+/* ------------------------------------------------------------------ */
+/* 1 ▸  lookups                                                       */
+/* ------------------------------------------------------------------ */
+export const vehiclesOf = (driverChatId: string) =>
+  Vehicle.find({ driverChatId }).sort({ createdAt: 1 });
+
+export const approvedVehicles = (driverChatId: string) =>
+  Vehicle.find({ driverChatId, status: "approved" }).sort({ createdAt: 1 });
+
+/** The vehicle still being set up in the bot, if any. */
+export const draftVehicle = (driverChatId: string) =>
+  Vehicle.findOne({ driverChatId, setupStep: { $ne: "completed" } });
+
+export const isActiveVehicle = (d: DriverDocument, v: VehicleDocument) =>
+  !!d.activeVehicle && String(d.activeVehicle) === v.id;
+
+export const activeVehicleOf = (d: DriverDocument) =>
+  d.activeVehicle ? Vehicle.findById(d.activeVehicle) : Promise.resolve(null);
+
+/** True when another vehicle that is not rejected already uses the plate. */
+export const plateTaken = async (plate: string, exceptId: unknown) =>
+  !!(await Vehicle.exists({ plate, _id: { $ne: exceptId }, status: { $ne: "rejected" } }));
+
+/* ------------------------------------------------------------------ */
+/* 2 ▸  registration                                                  */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Start a new vehicle for the driver. The first one reuses the vehicle
+ * documents uploaded at registration; if those were already verified
+ * for an approved driver it only needs its details, not another review.
+ */
+export async function startVehicle(d: DriverDocument) {
+  const first = !(await Vehicle.exists({ driverChatId: d.chatId }));
+  const v = new Vehicle({ driverChatId: d.chatId });
+  if (first) copyDriverDocuments(d, v);
+  return v.save();
+}
+
+function copyDriverDocuments(d: DriverDocument, v: VehicleDocument) {
+  for (const key of VEHICLE_DOC_KEYS) {
+    const file = d.documents[key];
+    if (file) v.set(`documents.${key}`, JSON.parse(JSON.stringify(file)));
+  }
+}
+
+/**
+ * The vehicle of a driver approved before vehicles were registered one
+ * by one, built from the vehicle documents verified at registration and
+ * listed as Economy. Null when the driver already has a vehicle or those
+ * documents are not all verified.
+ */
+export async function legacyVehicle(d: DriverDocument) {
+  if (d.status !== "approved" || (await Vehicle.exists({ driverChatId: d.chatId }))) return null;
+  if (!VEHICLE_DOC_KEYS.every((k) => d.documents[k]?.verified)) return null;
+
+  const v = new Vehicle({
+    driverChatId: d.chatId, vehicleClass: "economy", setupStep: "completed", status: "approved", reviewedAt: new Date(),
+  });
+  copyDriverDocuments(d, v);
+  await v.save();
+  publish(rooms.admin, "vehicle:registered", {
+    vehicleId: v.id, driverChatId: d.chatId, vehicleClass: v.vehicleClass, status: v.status,
+  });
+  return v;
+}
+
+/**
+ * Run at start‑up: every approved driver without a vehicle gets their
+ * legacy one as active vehicle, so drivers already on shift keep
+ * matching dispatch. Resolves to the number of vehicles created.
+ */
+export async function backfillVehicles() {
+  const drivers = await Driver.find({ status: "approved", activeVehicle: { $exists: false } });
+  let created = 0;
+  for (const d of drivers) {
+    const v = await legacyVehicle(d);
+    if (!v) continue;
+    await selectVehicle(d, v);
+    created++;
+  }
+  return created;
+}
+
+/** Last step of the bot flow: all details and documents are in. */
+export async function completeVehicle(d: DriverDocument, v: VehicleDocument) {
+  const preVerified =
+    d.status === "approved" && VEHICLE_DOC_KEYS.every((k) => v.documents[k]?.verified);
+
+  v.setupStep = "completed";
+  v.status = preVerified ? "approved" : "pending";
+  if (preVerified) v.reviewedAt = new Date();
+  await v.save();
+
+  publish(rooms.admin, "vehicle:registered", {
+    vehicleId: v.id, driverChatId: d.chatId, plate: v.plate, vehicleClass: v.vehicleClass, status: v.status,
+  });
+  return v;
+}
+
+/** Make `v` the vehicle for the driver's shift. */
+export async function selectVehicle(d: DriverDocument, v: VehicleDocument) {
+  d.activeVehicle = v._id as DriverDocument["activeVehicle"];
+  d.vehicleClass = v.vehicleClass;
+  await d.save();
+  return d;
+}
+
+/* ------------------------------------------------------------------ */
+/* 3 ▸  admin review                                                  */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Approve or reject a vehicle. A rejected vehicle stops being anyone's
+ * active vehicle, and a driver on shift with it is taken offline.
+ */
+export async function reviewVehicle(v: VehicleDocument, status: "approved" | "rejected", reason?: string) {
+  v.status = status;
+  v.statusReason = reason;
+  v.reviewedAt = new Date();
+  await v.save();
+  publish(rooms.admin, "vehicle:status", { vehicleId: v.id, driverChatId: v.driverChatId, status, reason });
+
+  const d = await Driver.findByChatId(v.driverChatId);
+  if (!d) return v;
+  if (status === "rejected" && isActiveVehicle(d, v)) {
+    d.activeVehicle = undefined;
+    d.vehicleClass = undefined;
+    if (d.isOnline) await setOnline(d, false);
+    else await d.save();
+  }
+  await notifyVehicleStatus(d, v);
+  return v;
+}
+
+/** JSON shape for the admin API, virtuals included and documents viewable. */
+export async function vehicleView(v: VehicleDocument) {
+  const { __v, ...rest } = v.toJSON({ virtuals: true }) as Record<string, unknown>;
+  const documents: Record<string, unknown> = {};
+  for (const key of VEHICLE_DOC_KEYS) {
+    const file = v.documents[key];
+    if (file) documents[key] = await fileView(file);
+  }
+  return { ...rest, documents };
+}
@@ -0,0 +1,147 @@
+/**********************************************************************
+ * controllers/walletController.ts
+ * --------------------------------------------------------------------
+ *  Driver wallet. Every money movement is a WalletEntry and the balance
+ *  is their sum: positive when the platform owes the driver, negative
+ *  when the driver owes commission.
+ *  • online trip completed & paid → driver's share of the fare credited
+ *  • cash trip completed & paid   → platform commission debited
+ *  • payouts by an admin          → debited
+ *  Weekly statements summarise one Monday–Sunday week (SAST).
+ *********************************************************************/
+
+import { TripRequestDocument } from "../models/TripRequest.js";
+import { WalletEntry, WalletEntryDocument } from "../models/WalletEntry.js";
+import { PayoutStatement, PayoutStatementDocument } from "../models/PayoutStatement.js";
+import { amountDue } from "./paymentController.js";
+import { formatZar } from "../utils/fare.js";
+
+export const COMMISSION_RATE = Number(process.env.PLATFORM_COMMISSION_PCT ?? 20) / 100;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/* ------------------------------------------------------------------ */
+/* 1 ▸  ledger entries                                                */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Settle a finished trip into the driver's wallet. Safe to call from
+ * every place a trip may become completed‑and‑paid: the entry is keyed
+ * on the trip, so it is written once.
+ */
+export async function recordTripEarnings(trip: TripRequestDocument) {
+  if (trip.status !== "completed" || trip.payment?.status !== "paid" || !trip.driverChatId) return null;
+  const fare = trip.payment.amount ?? amountDue(trip);
+  if (fare == null) return null;
+
+  const online = trip.paymentMethod === "online";
+  return WalletEntry.post(`trip:${trip.id}:wallet`, {
+    driverChatId: trip.driverChatId,
+    trip: trip._id,
+    type: online ? "trip_earning" : "commission",
+    amount: online ? round2(fare * (1 - COMMISSION_RATE)) : -round2(fare * COMMISSION_RATE),
+    fare,
+    commissionRate: COMMISSION_RATE,
+  });
+}
+
+/** Money paid out to a driver; `reference` makes a repeated request a no‑op. */
+export const recordPayout = (driverChatId: string, amount: number, reference: string, note?: string) =>
+  WalletEntry.post(`payout:${driverChatId}:${reference}`, {
+    driverChatId, type: "payout", amount: -round2(amount), reference, note,
+  });
+
+export const walletBalance = (driverChatId: string) => WalletEntry.balanceOf(driverChatId);
+
+export const entriesBetween = (driverChatId: string, start: Date, end: Date) =>
+  WalletEntry.find({ driverChatId, createdAt: { $gte: start, $lt: end } }).sort({ createdAt: 1 });
+
+/* ------------------------------------------------------------------ */
+/* 2 ▸  weekly statements                                             */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Create the statement for one driver and week, or return the existing
+ * one. Null when there is nothing to report (no entries, zero balance).
+ */
+export async function buildStatement(driverChatId: string, periodStart: Date, periodEnd: Date) {
+  const existing = await PayoutStatement.findOne({ driverChatId, periodStart });
+  if (existing) return existing;
+
+  const [openingBalance, entries] = await Promise.all([
+    WalletEntry.balanceOf(driverChatId, periodStart),
+    entriesBetween(driverChatId, periodStart, periodEnd),
+  ]);
+  if (!entries.length && openingBalance === 0) return null;
+
+  const total = (type: WalletEntryDocument["type"]) =>
+    round2(entries.filter((e) => e.type === type).reduce((sum, e) => sum + e.amount, 0));
+
+  return PayoutStatement.findOneAndUpdate(
+    { driverChatId, periodStart },
+    {
+      $setOnInsert: {
+        periodEnd,
+        openingBalance,
+        earnings: total("trip_earning"),
+        commission: total("commission"),
+        payouts: total("payout"),
+        adjustments: total("adjustment"),
+        closingBalance: round2(openingBalance + entries.reduce((sum, e) => sum + e.amount, 0)),
+        tripCount: entries.filter((e) => e.trip).length,
+      },
+    },
+    { upsert: true, new: true }
+  );
+}
+
+export const latestStatements = (driverChatId: string, limit = 8) =>
+  PayoutStatement.find({ driverChatId }).sort({ periodStart: -1 }).limit(limit);
+
+const dayOf = (d: Date) =>
+  d.toLocaleDateString("en-ZA", { timeZone: "Africa/Johannesburg", day: "numeric", month: "short" });
+
+/** "12 Oct – 18 Oct" (the end is exclusive, so the last day shown is the Sunday). */
+export const statementPeriod = (s: PayoutStatementDocument) =>
+  `${dayOf(s.periodStart)} – ${dayOf(new Date(s.periodEnd.getTime() - 1))}`;
+
+/** Plain‑text summary used by the bot and the weekly notification. */
+export const statementSummary = (s: PayoutStatementDocument) =>
+  `📄 Statement ${statementPeriod(s)}\n` +
+  `Opening balance: ${formatZar(s.openingBalance)}\n` +
+  `Trips: ${s.tripCount}\n` +
+  `Online earnings (after ${Math.round(COMMISSION_RATE * 100)}% commission): ${formatZar(s.earnings)}\n` +
+  `Commission on cash trips: ${formatZar(s.commission)}\n` +
+  (s.payouts ? `Payouts: ${formatZar(s.payouts)}\n` : "") +
+  (s.adjustments ? `Adjustments: ${formatZar(s.adjustments)}\n` : "") +
+  `Closing balance: ${formatZar(s.closingBalance)}`;
+
+const csvCell = (v: unknown) => {
+  const text = v == null ? "" : String(v);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const sastStamp = (d: Date) => d.toLocaleString("sv-SE", { timeZone: "Africa/Johannesburg" });
+
+/** Statement lines with a running balance, as CSV. */
+export async function statementCsv(s: PayoutStatementDocument) {
+  const entries = await entriesBetween(s.driverChatId, s.periodStart, s.periodEnd);
+  let balance = s.openingBalance;
+
+  const rows: unknown[][] = [
+    ["date", "type", "trip", "fare", "commission_rate", "amount", "balance", "reference"],
+    [sastStamp(s.periodStart), "opening_balance", "", "", "", "", balance.toFixed(2), ""],
+  ];
+  for (const e of entries) {
+    balance = round2(balance + e.amount);
+    rows.push([
+      sastStamp(e.createdAt), e.type, e.trip?.toString() ?? "", e.fare?.toFixed(2) ?? "",
+      e.commissionRate ?? "", e.amount.toFixed(2), balance.toFixed(2), e.reference ?? "",
+    ]);
+  }
+  rows.push([sastStamp(s.periodEnd), "closing_balance", "", "", "", "", s.closingBalance.toFixed(2), ""]);
+  return rows.map((r) => r.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+export const statementFilename = (s: PayoutStatementDocument) =>
+  `statement-${sastStamp(s.periodStart).slice(0, 10)}.csv`;
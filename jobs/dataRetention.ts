@@ -0,0 +1,51 @@
+/**********************************************************************
+ * jobs/dataRetention.ts
+ * --------------------------------------------------------------------
+ *  Every 6 hours, purge driver registrations and vehicle set‑ups that
+ *  were abandoned for RETENTION_INCOMPLETE_DAYS (default 30), uploaded
+ *  files included. Finished registrations are never touched here; they
+ *  go only through /deleteme (controllers/privacyController.ts).
+ *********************************************************************/
+
+import { bot } from "../bot.js";
+import {
+  purgeDraftVehicle, purgeIncompleteDriver, RETENTION_INCOMPLETE_DAYS
+} from "../controllers/privacyController.js";
+import { Driver } from "../models/Driver.js";
+import { Vehicle } from "../models/Vehicle.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function tick() {
+  const cutoff = new Date(Date.now() - RETENTION_INCOMPLETE_DAYS * DAY_MS);
+
+  const drivers = await Driver.find({ registrationStep: { $ne: "completed" }, updatedAt: { $lt: cutoff } });
+  for (const d of drivers) {
+    try {
+      await purgeIncompleteDriver(d);
+      await bot.sendMessage(d.chatId,
+        `🗑 Your unfinished registration was deleted after ${RETENTION_INCOMPLETE_DAYS} days, ` +
+        "together with the documents you uploaded. Send /start to register again."
+      ).catch(() => undefined);
+    } catch (err) {
+      console.error(`[dataRetention] driver ${d.id} failed:`, err);
+    }
+  }
+
+  const vehicles = await Vehicle.find({ setupStep: { $ne: "completed" }, updatedAt: { $lt: cutoff } });
+  for (const v of vehicles) {
+    await purgeDraftVehicle(v).catch((err) =>
+      console.error(`[dataRetention] vehicle ${v.id} failed:`, err)
+    );
+  }
+
+  if (drivers.length || vehicles.length) {
+    console.log(`[dataRetention] purged ${drivers.length} registration(s), ${vehicles.length} vehicle draft(s)`);
+  }
+}
+
+export function startDataRetentionJob(everyMs = 6 * 60 * 60_000) {
+  const run = () => tick().catch((err) => console.error("[dataRetention] tick failed:", err));
+  run();
+  return setInterval(run, everyMs);
+}
@@ -0,0 +1,22 @@
+/**********************************************************************
+ * jobs/dispatchRecovery.ts
+ * --------------------------------------------------------------------
+ *  Every 15 seconds, move on trip searches whose next wave is overdue.
+ *  Wave timers live in the process that started the search, so after a
+ *  restart or deploy this is what keeps those trips from searching
+ *  forever. Safe on every instance: each wave is claimed in the
+ *  database (controllers/dispatchController.ts).
+ *********************************************************************/
+
+import { resumeOverdueSearches } from "../controllers/dispatchController.js";
+
+async function tick() {
+  const overdue = await resumeOverdueSearches();
+  if (overdue) console.log(`[dispatchRecovery] ${overdue} overdue search(es) moved on`);
+}
+
+export function startDispatchRecoveryJob(everyMs = 15_000) {
+  const run = () => tick().catch((err) => console.error("[dispatchRecovery] tick failed:", err));
+  run();
+  return setInterval(run, everyMs);
+}
@@ -0,0 +1,96 @@
+/**********************************************************************
+ * jobs/documentExpiry.ts
+ * --------------------------------------------------------------------
+ *  Every few hours, remind drivers 30, 7 and 1 days before a document
+ *  expires, and suspend approved drivers whose mandatory document has
+ *  lapsed. Sent thresholds are kept in `remindersSent` so each reminder
+ *  goes out once per document. Drivers registered before expiry dates
+ *  were collected are asked for them once, when not on a trip.
+ *********************************************************************/
+
+import { askExpiryDates, bot } from "../bot.js";
+import { setDriverStatus } from "../controllers/adminController.js";
+import { DOC_LABELS, Driver, DriverDocument, EXPIRING_DOC_KEYS } from "../models/Driver.js";
+import { ACTIVE_TRIP_STATUSES, TripRequest } from "../models/TripRequest.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REMINDER_DAYS = [30, 7, 1];
+
+const dateOf = (d: Date) =>
+  d.toLocaleDateString("en-ZA", { timeZone: "Africa/Johannesburg", dateStyle: "medium" });
+
+async function remind(d: DriverDocument, text: string) {
+  await bot.sendMessage(d.chatId, text, { parse_mode: "Markdown" }).catch(() => undefined);
+}
+
+async function checkDriver(d: DriverDocument, now: number) {
+  const lapsed: string[] = [];
+
+  for (const key of EXPIRING_DOC_KEYS) {
+    const file = d.documents[key];
+    if (!file?.expiresAt) continue;
+
+    const msLeft = file.expiresAt.getTime() - now;
+    if (msLeft <= 0) {
+      lapsed.push(`${DOC_LABELS[key]} expired on ${dateOf(file.expiresAt)}`);
+      continue;
+    }
+
+    // every threshold already crossed — a late first run sends one reminder, not three
+    const due = REMINDER_DAYS.filter((days) => msLeft <= days * DAY_MS);
+    if (!due.length || due.every((days) => file.remindersSent?.includes(days))) continue;
+
+    d.set(`documents.${key}.remindersSent`, due);
+    await d.save();
+    const days = Math.ceil(msLeft / DAY_MS);
+    await remind(d,
+      `⏰ Your *${DOC_LABELS[key]}* expires in ${days} day${days === 1 ? "" : "s"} (${dateOf(file.expiresAt)}).\n` +
+        "Send /renew to upload the new one."
+    );
+  }
+
+  if (lapsed.length && d.status === "approved") {
+    await setDriverStatus(d, "suspended", lapsed.join("; "));
+    await remind(d, "Send /renew to upload the renewed documents, then we’ll review your account.");
+  }
+}
+
+/** Registered drivers with an expiring document that has no date yet. */
+async function askMissingDates() {
+  const drivers = await Driver.find({
+    registrationStep: "completed",
+    expiryAskedAt: { $exists: false },
+    $or: EXPIRING_DOC_KEYS.map((k) => ({
+      [`documents.${k}.cloudUrl`]: { $exists: true },
+      [`documents.${k}.expiresAt`]: { $exists: false },
+    })),
+  });
+  for (const d of drivers) {
+    if (await TripRequest.exists({ driverChatId: d.chatId, status: { $in: ACTIVE_TRIP_STATUSES } })) continue;
+    await askExpiryDates(d).catch((err) =>
+      console.error(`[documentExpiry] asking driver ${d.id} failed:`, err)
+    );
+  }
+}
+
+async function tick() {
+  await askMissingDates();
+
+  const horizon = new Date(Date.now() + Math.max(...REMINDER_DAYS) * DAY_MS);
+  const drivers = await Driver.find({
+    $or: EXPIRING_DOC_KEYS.map((k) => ({ [`documents.${k}.expiresAt`]: { $lte: horizon } })),
+  });
+
+  const now = Date.now();
+  for (const d of drivers) {
+    await checkDriver(d, now).catch((err) =>
+      console.error(`[documentExpiry] driver ${d.id} failed:`, err)
+    );
+  }
+}
+
+export function startDocumentExpiryJob(everyMs = 6 * 60 * 60_000) {
+  const run = () => tick().catch((err) => console.error("[documentExpiry] tick failed:", err));
+  run();
+  return setInterval(run, everyMs);
+}
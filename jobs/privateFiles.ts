@@ -0,0 +1,70 @@
+/**********************************************************************
+ * jobs/privateFiles.ts
+ * --------------------------------------------------------------------
+ *  Every hour, move documents uploaded before storage went private off
+ *  their public Cloudinary URL: each becomes an authenticated asset
+ *  under the same public id, gets a storageKey and loses the stored
+ *  link. Until then the admin API hands out no link for them. Nothing
+ *  to do with STORAGE=local or once every file has been moved.
+ *********************************************************************/
+
+import { Model } from "mongoose";
+import { DOC_KEYS, Driver } from "../models/Driver.js";
+import { VEHICLE_DOC_KEYS, Vehicle } from "../models/Vehicle.js";
+import { CloudinaryStorage, getStorage } from "../utils/storage.js";
+
+const BATCH = 50;
+
+const isPublicUrl = (url?: string): url is string => !!url && /^https?:\/\//.test(url);
+
+/** Move one batch of `model` records; resolves to the number of files moved. */
+async function migrate(storage: CloudinaryStorage, model: Model<any>, keys: readonly string[]) {
+  const docs = await model
+    .find({
+      $or: keys.map((k) => ({
+        [`documents.${k}.cloudUrl`]: /^https?:\/\//,
+        [`documents.${k}.storageKey`]: { $exists: false },
+      })),
+    })
+    .limit(BATCH);
+
+  let moved = 0;
+  for (const doc of docs) {
+    for (const key of keys) {
+      const file = doc.documents?.[key];
+      if (!isPublicUrl(file?.cloudUrl) || file.storageKey) continue;
+      try {
+        const storageKey = await storage.makePrivate(file.cloudUrl);
+        if (!storageKey) {
+          console.warn(`[privateFiles] ${model.modelName} ${doc.id} ${key}: not a Cloudinary URL`);
+          continue;
+        }
+        // only if the file was not replaced in the meantime
+        await model.updateOne(
+          { _id: doc._id, [`documents.${key}.cloudUrl`]: file.cloudUrl },
+          { $set: { [`documents.${key}.storageKey`]: storageKey, [`documents.${key}.cloudUrl`]: `cloudinary:${storageKey}` } }
+        );
+        moved++;
+      } catch (err) {
+        console.error(`[privateFiles] ${model.modelName} ${doc.id} ${key} failed:`, err);
+      }
+    }
+  }
+  return moved;
+}
+
+async function tick() {
+  const storage = getStorage();
+  if (!(storage instanceof CloudinaryStorage)) return;
+
+  const moved =
+    (await migrate(storage, Driver, DOC_KEYS)) +
+    (await migrate(storage, Vehicle, VEHICLE_DOC_KEYS));
+  if (moved) console.log(`[privateFiles] made ${moved} file(s) private`);
+}
+
+export function startPrivateFilesJob(everyMs = 60 * 60_000) {
+  const run = () => tick().catch((err) => console.error("[privateFiles] tick failed:", err));
+  run();
+  return setInterval(run, everyMs);
+}
@@ -0,0 +1,95 @@
+/**********************************************************************
+ * jobs/scheduledRides.ts
+ * --------------------------------------------------------------------
+ *  Every minute, remind riders 24 hours and 1 hour before a booked
+ *  pickup, and hand bookings to dispatch DISPATCH_LEAD_MIN before the
+ *  pickup time. Bookings whose pickup passed long ago (server down) are
+ *  cancelled instead of dispatched, and a booking waits while the rider
+ *  still has another ride open. Sent thresholds are kept in
+ *  `remindersSent` so each reminder goes out once.
+ *********************************************************************/
+
+import { RiderPort } from "../riderPort.js";
+import { dispatchTrip } from "../controllers/dispatchController.js";
+import { DISPATCH_LEAD_MIN, formatPickup } from "../controllers/scheduleController.js";
+import { cancelTrip, openTripFor, riderActions } from "../controllers/tripController.js";
+import { TripRequest, TripRequestDocument } from "../models/TripRequest.js";
+import { escapeHtml } from "../utils/escapeHtml.js";
+
+const MIN_MS = 60_000;
+const REMINDER_MIN = [24 * 60, 60];
+const MISSED_AFTER_MIN = 30;
+
+const notify = (trip: TripRequestDocument, text: string, opts: object = {}) =>
+  RiderPort.sendMessage(trip.riderChatId, text, { parse_mode: "HTML", ...opts })
+    .catch((err: unknown) => console.error("[scheduledRides] rider notify failed:", err));
+
+async function remind(trip: TripRequestDocument, now: number) {
+  const pickup = trip.scheduledFor!.getTime();
+  const minLeft = (pickup - now) / MIN_MS;
+  const bookedAhead = (pickup - (trip.scheduledAt ?? trip.createdAt).getTime()) / MIN_MS;
+
+  // thresholds crossed since booking — a ride booked 2 h ahead only gets the 1 h reminder
+  const due = REMINDER_MIN.filter((min) => minLeft <= min && min < bookedAhead);
+  if (!due.length) return;
+
+  const claimed = await TripRequest.updateOne(
+    { _id: trip._id, status: "scheduled", remindersSent: { $ne: Math.min(...due) } },
+    { $set: { remindersSent: due } }
+  );
+  if (!claimed.modifiedCount) return;
+  await notify(trip,
+    `⏰ <b>Reminder:</b> your ride to ${escapeHtml(trip.dropoff ?? "—")} is booked for ` +
+      `${formatPickup(trip.scheduledFor!)}.`,
+    { reply_markup: { inline_keyboard: riderActions(trip) } }
+  );
+}
+
+async function release(trip: TripRequestDocument, now: number) {
+  if (trip.scheduledFor!.getTime() < now - MISSED_AFTER_MIN * MIN_MS) {
+    await cancelTrip(trip.id, "system", "Scheduled pickup time passed");
+    return;
+  }
+
+  // one open ride per rider: the booking waits until the current one ends
+  if (await openTripFor(trip.riderChatId)) {
+    const held = await TripRequest.updateOne(
+      { _id: trip._id, status: "scheduled", heldAt: { $exists: false } },
+      { $set: { heldAt: new Date() } }
+    );
+    if (held.modifiedCount) {
+      await notify(trip,
+        `⏸ Your ${formatPickup(trip.scheduledFor!)} booking will go to drivers once your current ride has ended.`,
+        { reply_markup: { inline_keyboard: riderActions(trip) } }
+      );
+    }
+    return;
+  }
+
+  const released = await TripRequest.transition(trip._id, "pending");
+  if (!released) return;                 // cancelled meanwhile
+  await notify(released,
+    `🔎 Looking for a driver for your ${formatPickup(trip.scheduledFor!)} pickup…`,
+    { reply_markup: { inline_keyboard: riderActions(released) } }
+  );
+  await dispatchTrip(released.id);
+}
+
+async function tick() {
+  const now = Date.now();
+  const horizon = new Date(now + Math.max(...REMINDER_MIN) * MIN_MS);
+  const trips = await TripRequest.find({ status: "scheduled", scheduledFor: { $lte: horizon } });
+
+  for (const trip of trips) {
+    const step = trip.scheduledFor!.getTime() <= now + DISPATCH_LEAD_MIN * MIN_MS ? release : remind;
+    await step(trip, now).catch((err) =>
+      console.error(`[scheduledRides] trip ${trip.id} failed:`, err)
+    );
+  }
+}
+
+export function startScheduledRidesJob(everyMs = 60_000) {
+  const run = () => tick().catch((err) => console.error("[scheduledRides] tick failed:", err));
+  run();
+  return setInterval(run, everyMs);
+}
@@ -0,0 +1,31 @@
+/**********************************************************************
+ * jobs/staleDrivers.ts
+ * --------------------------------------------------------------------
+ *  Every minute, switch off drivers who stopped sharing their location
+ *  for longer than DRIVER_LOCATION_TIMEOUT_MIN (default 10).
+ *********************************************************************/
+
+import { bot } from "../bot.js";
+import { markStaleDriversOffline } from "../controllers/availabilityController.js";
+
+const TIMEOUT_MS = Number(process.env.DRIVER_LOCATION_TIMEOUT_MIN ?? 10) * 60_000;
+
+async function tick() {
+  const drivers = await markStaleDriversOffline(TIMEOUT_MS);
+  for (const d of drivers) {
+    await bot
+      .sendMessage(
+        d.chatId,
+        "🔴 You’ve been set *offline* because we stopped receiving your live location.\n" +
+          "Tap 🟢 Go online and share your live location to receive trips again.",
+        { parse_mode: "Markdown" }
+      )
+      .catch(() => undefined);
+  }
+}
+
+export function startStaleDriverJob(everyMs = 60_000) {
+  return setInterval(() => {
+    tick().catch((err) => console.error("[staleDrivers] tick failed:", err));
+  }, everyMs);
+}
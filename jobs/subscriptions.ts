@@ -0,0 +1,76 @@
+/**********************************************************************
+ * jobs/subscriptions.ts
+ * --------------------------------------------------------------------
+ *  Every 15 minutes, remind drivers 3 days, 1 day and 2 hours before
+ *  their plan runs out, and switch off drivers who are online with a
+ *  lapsed plan. Sent thresholds are kept in `subscription.remindersSent`
+ *  (reset on renewal) so each reminder goes out once per period.
+ *********************************************************************/
+
+import { bot } from "../bot.js";
+import { setOnline } from "../controllers/availabilityController.js";
+import { planKeyboard } from "../controllers/subscriptionController.js";
+import { Driver, DriverDocument } from "../models/Driver.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const REMINDER_HOURS = [72, 24, 2];
+
+const dateOf = (d: Date) =>
+  d.toLocaleString("en-ZA", { timeZone: "Africa/Johannesburg", dateStyle: "medium", timeStyle: "short" });
+
+const withPlans = { reply_markup: { inline_keyboard: planKeyboard() } };
+
+async function remind(d: DriverDocument, now: number) {
+  const { paidUntil, renewedAt } = d.subscription!;
+  const hoursLeft = (paidUntil!.getTime() - now) / HOUR_MS;
+  const period = (paidUntil!.getTime() - (renewedAt ?? paidUntil!).getTime()) / HOUR_MS;
+
+  // thresholds crossed since renewal — a daily plan only gets the 2 h reminder
+  const due = REMINDER_HOURS.filter((h) => hoursLeft <= h && h < period);
+  if (!due.length) return;
+
+  const claimed = await Driver.updateOne(
+    { _id: d._id, "subscription.paidUntil": paidUntil, "subscription.remindersSent": { $ne: Math.min(...due) } },
+    { $set: { "subscription.remindersSent": due } }
+  );
+  if (!claimed.modifiedCount) return;
+  await bot.sendMessage(d.chatId,
+    `⏰ Your plan expires on ${dateOf(paidUntil!)}. Renew now to keep receiving trips:`, withPlans
+  ).catch(() => undefined);
+}
+
+async function lapse(d: DriverDocument) {
+  await setOnline(d, false);
+  await bot.sendMessage(d.chatId,
+    "⛔ Your plan has expired, so you’re now *offline*. Choose a plan to go back online:",
+    { parse_mode: "Markdown", ...withPlans }
+  ).catch(() => undefined);
+}
+
+async function tick() {
+  const now = new Date();
+  const [expiring, lapsed] = await Promise.all([
+    Driver.find({
+      "subscription.paidUntil": { $gt: now, $lte: new Date(now.getTime() + Math.max(...REMINDER_HOURS) * HOUR_MS) },
+    }),
+    Driver.find({
+      isOnline: true,
+      $or: [{ "subscription.paidUntil": { $lte: now } }, { "subscription.paidUntil": { $exists: false } }],
+    }),
+  ]);
+
+  for (const d of expiring) {
+    await remind(d, now.getTime()).catch((err) =>
+      console.error(`[subscriptions] reminder for ${d.id} failed:`, err)
+    );
+  }
+  for (const d of lapsed) {
+    await lapse(d).catch((err) => console.error(`[subscriptions] lapse for ${d.id} failed:`, err));
+  }
+}
+
+export function startSubscriptionJob(everyMs = 15 * 60_000) {
+  const run = () => tick().catch((err) => console.error("[subscriptions] tick failed:", err));
+  run();
+  return setInterval(run, everyMs);
+}
@@ -0,0 +1,43 @@
+/**********************************************************************
+ * jobs/weeklyStatements.ts
+ * --------------------------------------------------------------------
+ *  Every hour, make sure each driver with wallet activity has a
+ *  statement for the last finished Monday–Sunday week (SAST) and send
+ *  them its summary. Statements are unique per driver and week, so
+ *  reruns and restarts never duplicate one.
+ *********************************************************************/
+
+import { bot } from "../bot.js";
+import { periodStarts } from "../controllers/dashboardController.js";
+import { buildStatement, statementSummary } from "../controllers/walletController.js";
+import { WalletEntry } from "../models/WalletEntry.js";
+
+const WEEK_MS = 7 * 24 * 60 * 60_000;
+
+async function statementFor(driverChatId: string, periodStart: Date, periodEnd: Date) {
+  const statement = await buildStatement(driverChatId, periodStart, periodEnd);
+  if (!statement || statement.notifiedAt) return;
+
+  await bot.sendMessage(driverChatId, `${statementSummary(statement)}\n\nSend /statement for the CSV.`)
+    .catch(() => undefined);
+  statement.notifiedAt = new Date();
+  await statement.save();
+}
+
+async function tick() {
+  const periodEnd = periodStarts().week;
+  const periodStart = new Date(periodEnd.getTime() - WEEK_MS);
+  const drivers: string[] = await WalletEntry.distinct("driverChatId", { createdAt: { $lt: periodEnd } });
+
+  for (const chatId of drivers) {
+    await statementFor(chatId, periodStart, periodEnd).catch((err) =>
+      console.error(`[weeklyStatements] driver ${chatId} failed:`, err)
+    );
+  }
+}
+
+export function startWeeklyStatementsJob(everyMs = 60 * 60_000) {
+  const run = () => tick().catch((err) => console.error("[weeklyStatements] tick failed:", err));
+  run();
+  return setInterval(run, everyMs);
+}
@@ -10,19 +10,22 @@ const SECRET = process.env.DASH_JWT_SECRET;
 if (!SECRET) throw new Error("DASH_JWT_SECRET missing in environment");
 
 /**
- * Create a 30‑day dashboard link for a Telegram chatId.
+ * Create a dashboard session for a Telegram chatId, valid until the PIN
+ * it was issued for expires.
  * @param {string} chatId
+ * @param {number} pinSetAt   when the PIN was set (ms); see controllers/authController.ts
+ * @param {Date} expiresAt
  * @returns {string} signed JWT
  */
-export function signDashLink(chatId) {
-  return jwt.sign({ chatId }, SECRET, { expiresIn: "30d" });
+export function signDashLink(chatId, pinSetAt, expiresAt) {
+  return jwt.sign({ chatId, pinSetAt, exp: Math.floor(expiresAt.getTime() / 1000) }, SECRET);
 }
 
 /**
  * Verify a JWT from vr_session cookie (throws if invalid/expired).
  * @param {string} token
- * @returns {{ chatId: string }}
+ * @returns {{ chatId: string, pinSetAt?: number }}
  */
 export function verifyJWT(token) {
-  return /** @type {{ chatId: string }} */ (jwt.verify(token, SECRET));
+  return /** @type {{ chatId: string, pinSetAt?: number }} */ (jwt.verify(token, SECRET));
 }
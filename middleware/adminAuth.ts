@@ -0,0 +1,30 @@
+/**********************************************************************
+ * middleware/adminAuth.ts
+ * --------------------------------------------------------------------
+ *  Guards the admin API with a static bearer token (ADMIN_API_KEY).
+ *  The same key admits ops sockets (middleware/socketAuth.ts).
+ *********************************************************************/
+
+import { NextFunction, Request, Response } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+
+const digest = (s: string) => createHash('sha256').update(s).digest();
+
+/** True when `token` is the configured admin key (false if none is set). */
+export function isAdminKey(token: string) {
+  const key = process.env.ADMIN_API_KEY;
+  // compare fixed‑length digests so timing leaks nothing about the key
+  return !!key && !!token && timingSafeEqual(digest(token), digest(key));
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!process.env.ADMIN_API_KEY) {
+    return res.status(503).json({ error: 'Admin API disabled (ADMIN_API_KEY missing)' });
+  }
+
+  const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+  if (scheme !== 'Bearer' || !isAdminKey(token)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  next();
+}
@@ -0,0 +1,55 @@
+/**********************************************************************
+ * middleware/driverAuth.ts
+ * --------------------------------------------------------------------
+ *  Guards the driver dashboard with the `vr_session` cookie issued at
+ *  PIN login (routes/driver.ts). The driver is loaded into
+ *  `res.locals.driver`.
+ *********************************************************************/
+
+import { Request, Response } from 'express';
+import { Driver } from '../models/Driver.js';
+import { verifyJWT } from '../jwt.js';
+import { pinSessionValid } from '../controllers/authController.js';
+import { asyncHandler } from '../utils/asyncHandler.js';
+
+export const SESSION_COOKIE = 'vr_session';
+
+/** One cookie from a raw Cookie header; the app has no cookie‑parser. */
+export function readCookie(header: string | undefined, name: string) {
+  for (const part of (header ?? '').split(';')) {
+    const [k, ...v] = part.split('=');
+    if (k.trim() === name) return v.join('=').trim();
+  }
+  return undefined;
+}
+
+/**
+ * The approved driver a session token belongs to, or null. A token only
+ * holds for the PIN it was issued with: /newpin signs out older sessions.
+ */
+export async function driverForToken(token: string | undefined) {
+  let session: { chatId: string; pinSetAt?: number } | undefined;
+  try {
+    session = token ? verifyJWT(token) : undefined;
+  } catch {
+    return null;                         // bad signature or expired
+  }
+  const d = session ? await Driver.findByChatId(session.chatId) : null;
+  if (!d || !pinSessionValid(d, session?.pinSetAt)) return null;
+  return d.status === 'approved' ? d : null;
+}
+
+function deny(req: Request, res: Response) {
+  res.clearCookie(SESSION_COOKIE);
+  if (req.accepts(['html', 'json']) === 'html') return res.redirect('/driver/login');
+  return res.status(401).json({ error: 'Unauthorized' });
+}
+
+export const requireDriver = asyncHandler(async (req, res, next) => {
+  // suspended or rejected drivers lose access on their next request
+  const d = await driverForToken(readCookie(req.headers.cookie, SESSION_COOKIE));
+  if (!d) return deny(req, res);
+
+  res.locals.driver = d;
+  next();
+});
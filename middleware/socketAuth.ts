@@ -0,0 +1,37 @@
+/**********************************************************************
+ * middleware/socketAuth.ts
+ * --------------------------------------------------------------------
+ *  Socket.IO handshake check. Two kinds of client may connect:
+ *   • ops dashboards:   auth: { adminKey: <ADMIN_API_KEY> }
+ *   • approved drivers: the `vr_session` cookie, or auth: { token }
+ *  Anyone else is refused before a connection is established.
+ *********************************************************************/
+
+import { Socket } from 'socket.io';
+import { isAdminKey } from './adminAuth.js';
+import { driverForToken, readCookie, SESSION_COOKIE } from './driverAuth.js';
+
+export type SocketIdentity =
+  | { role: 'admin' }
+  | { role: 'driver'; chatId: string };
+
+export async function authenticateSocket(socket: Socket, next: (err?: Error) => void) {
+  try {
+    const auth = socket.handshake.auth ?? {};
+    if (typeof auth.adminKey === 'string' && isAdminKey(auth.adminKey)) {
+      socket.data = { role: 'admin' } satisfies SocketIdentity;
+      return next();
+    }
+
+    const token = typeof auth.token === 'string'
+      ? auth.token
+      : readCookie(socket.handshake.headers.cookie, SESSION_COOKIE);
+    const d = await driverForToken(token);
+    if (!d) return next(new Error('unauthorized'));
+
+    socket.data = { role: 'driver', chatId: d.chatId } satisfies SocketIdentity;
+    next();
+  } catch (err) {
+    next(err as Error);
+  }
+}
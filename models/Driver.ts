@@ -1,17 +1,58 @@
-import mongoose, { Schema, Model, Document } from "mongoose";
+import mongoose, { Schema, Model, Document, Types } from "mongoose";
 
 /* ------------------------------------------------------------------ */
-/* 1 ▸  sub‑schema for every uploaded file                            */
+/* 0 ▸  required documents & human‑friendly labels                    */
 /* ------------------------------------------------------------------ */
-const File = new Schema(
+export const DOC_KEYS = [
+  "profilePhoto", "vehiclePhoto", "nationalId", "vehicleRegistration",
+  "driversLicense", "insuranceCertificate", "pdpOrPsvBadge",
+  "dekraCertificate", "policeClearance", "licenseDisc"
+] as const;
+
+export type DocKey = typeof DOC_KEYS[number];
+
+export const DOC_LABELS: Record<DocKey, string> = {
+  profilePhoto: "Driver Profile Photo",
+  vehiclePhoto: "Vehicle Photo (with plate)",
+  nationalId: "National ID Document",
+  vehicleRegistration: "Vehicle Registration / LogBook",
+  driversLicense: "Driver's License",
+  insuranceCertificate: "Vehicle Insurance Certificate",
+  pdpOrPsvBadge: "PDP / PSV Badge",
+  dekraCertificate: "DEKRA Certificate",
+  policeClearance: "Police Clearance Certificate",
+  licenseDisc: "Vehicle License Disc"
+};
+
+/** Documents that carry an expiry date; all of them are mandatory. */
+export const EXPIRING_DOC_KEYS: readonly DocKey[] = [
+  "driversLicense", "licenseDisc", "insuranceCertificate",
+  "pdpOrPsvBadge", "dekraCertificate", "policeClearance"
+];
+
+export const isDocKey = (k: string): k is DocKey =>
+  (DOC_KEYS as readonly string[]).includes(k);
+
+export const DRIVER_STATUSES = ["pending", "approved", "suspended", "rejected"] as const;
+export type DriverStatus = typeof DRIVER_STATUSES[number];
+
+/* ------------------------------------------------------------------ */
+/* 1 ▸  sub‑schema for every uploaded file (also used by Vehicle)     */
+/* ------------------------------------------------------------------ */
+export const FileSchema = new Schema(
   {
     fileId:       String,
     fileUniqueId: String,
-    cloudUrl:     String,
+    storageKey:   String,              // document storage key (utils/storage.ts); unset on older uploads
+    cloudUrl:     String,              // storage location, not a link; older uploads: see jobs/privateFiles.ts
     format:       String,              // jpg, png, pdf, …
     bytes:        Number,
     uploadedAt:  { type: Date, default: Date.now },
-    verified:    { type: Boolean, default: false }
+    verified:    { type: Boolean, default: false },
+    reviewedAt:  Date,
+    rejectedReason: String,
+    expiresAt:   Date,
+    remindersSent: { type: [Number], default: undefined }   // days‑before thresholds already sent
   },
   { _id: false }
 );
@@ -27,24 +68,72 @@ const DriverSchema = new Schema(
     telegramUsername: String,
 
     registrationStep: { type: String, default: "name" },   // name | phone | docs | completed
-    status:           { type: String, default: "pending" },// pending | approved | …
+    status:           { type: String, default: "pending" },// pending | approved | suspended | rejected
+    statusReason:     String,
+    erasedAt:         Date,     // personal data removed on request (controllers/privacyController.ts)
+
+    isOnline:    { type: Boolean, default: false },
+    onlineSince: Date,
+
+    // GeoJSON point — coordinates are [lon, lat]
+    location: {
+      type:        { type: String, enum: ["Point"] },
+      coordinates: { type: [Number], default: undefined }
+    },
+    locationUpdatedAt: Date,
+
+    // vehicle driven this shift (models/Vehicle.ts); its class is copied for dispatch
+    activeVehicle: { type: Schema.Types.ObjectId, ref: "Vehicle" },
+    vehicleClass:  String,
+
+    // rolling average of rider ratings (controllers/ratingController.ts)
+    rating: {
+      average: Number,
+      count:   { type: Number, default: 0 }
+    },
+    reviewFlag: {
+      reason: String,
+      at:     Date
+    },
+
+    // registered before expiry dates were collected: asked for them once (jobs/documentExpiry.ts)
+    expiryAskedAt: Date,
+
+    // platform fee (controllers/subscriptionController.ts) — online only while paidUntil is ahead
+    subscription: {
+      plan:          String,
+      paidUntil:     Date,
+      renewedAt:     Date,
+      remindersSent: { type: [Number], default: undefined }   // hours‑before thresholds
+    },
+
+    // dashboard login — bcrypt hash of the 4‑digit PIN set in the bot
+    pin: {
+      hash:           String,
+      setAt:          Date,               // sessions issued before this are void
+      expiresAt:      Date,
+      failedAttempts: { type: Number, default: 0 },
+      lockedUntil:    Date
+    },
 
     documents: {
-      profilePhoto:        File,
-      vehiclePhoto:        File,
-      nationalId:          File,
-      vehicleRegistration: File,
-      driversLicense:      File,
-      insuranceCertificate:File,
-      pdpOrPsvBadge:       File,
-      dekraCertificate:    File,
-      policeClearance:     File,
-      licenseDisc:         File
+      profilePhoto:        FileSchema,
+      vehiclePhoto:        FileSchema,
+      nationalId:          FileSchema,
+      vehicleRegistration: FileSchema,
+      driversLicense:      FileSchema,
+      insuranceCertificate:FileSchema,
+      pdpOrPsvBadge:       FileSchema,
+      dekraCertificate:    FileSchema,
+      policeClearance:     FileSchema,
+      licenseDisc:         FileSchema
     }
   },
   { timestamps: true }
 );
 
+DriverSchema.index({ location: "2dsphere" });
+
 /* ------------------------------------------------------------------ */
 /* 3 ▸  virtual: true if all 10 docs exist                            */
 /* ------------------------------------------------------------------ */
@@ -65,6 +154,7 @@ DriverSchema.methods.addOrUpdateDocument = function (
   file: {
     fileId: string;
     fileUniqueId?: string;
+    storageKey?: string;
     cloudUrl: string;
     format: string;
     bytes: number;
@@ -87,10 +177,60 @@ DriverSchema.statics.findByChatId = function (chatId: string) {
 DriverSchema.statics.getStatusCounts = function () {
   return this.aggregate([{ $group: { _id: "$status", count: { $sum: 1 } } }]);
 };
+/** Online approved drivers around a point, nearest first. */
+DriverSchema.statics.findNearby = function (
+  lat: number,
+  lon: number,
+  maxKm: number,
+  opts: { query?: Record<string, unknown>; limit?: number } = {}
+) {
+  return this.aggregate([
+    {
+      $geoNear: {
+        near: { type: "Point", coordinates: [lon, lat] },
+        distanceField: "distanceM",
+        maxDistance: maxKm * 1000,
+        spherical: true,
+        query: { status: "approved", isOnline: true, ...opts.query }
+      }
+    },
+    { $limit: opts.limit ?? 20 }
+  ]);
+};
 
 /* ------------------------------------------------------------------ */
 /* 6 ▸  export                                                        */
 /* ------------------------------------------------------------------ */
+export interface DriverFile {
+  fileId: string;
+  fileUniqueId?: string;
+  storageKey?: string;
+  cloudUrl: string;
+  format: string;
+  bytes: number;
+  uploadedAt: Date;
+  verified: boolean;
+  reviewedAt?: Date;
+  rejectedReason?: string;
+  expiresAt?: Date;
+  remindersSent?: number[];
+}
+
+export interface DriverPin {
+  hash?: string;
+  setAt?: Date;
+  expiresAt?: Date;
+  failedAttempts: number;
+  lockedUntil?: Date;
+}
+
+export interface DriverSubscription {
+  plan?: string;
+  paidUntil?: Date;
+  renewedAt?: Date;
+  remindersSent?: number[];
+}
+
 export interface DriverDocument extends Document {
   fullName?: string;
   phone?: string;
@@ -98,16 +238,37 @@ export interface DriverDocument extends Document {
   telegramUsername?: string;
   registrationStep: string;
   status: string;
-  documents: Record<string, typeof File>;
+  statusReason?: string;
+  erasedAt?: Date;
+  isOnline: boolean;
+  onlineSince?: Date;
+  location?: { type: "Point"; coordinates: [number, number] };
+  locationUpdatedAt?: Date;
+  activeVehicle?: Types.ObjectId;
+  vehicleClass?: string;
+  pin?: DriverPin;
+  subscription?: DriverSubscription;
+  rating?: { average?: number; count: number };
+  reviewFlag?: { reason?: string; at?: Date };
+  expiryAskedAt?: Date;
+  documents: Record<string, DriverFile | undefined>;
   documentsComplete: boolean;
   addOrUpdateDocument: (
     key: string,
-    file: { fileId: string; fileUniqueId?: string; cloudUrl: string; format: string; bytes: number }
+    file: {
+      fileId: string; fileUniqueId?: string; storageKey?: string; cloudUrl: string; format: string; bytes: number
+    }
   ) => Promise<DriverDocument>;
 }
 export interface DriverModel extends Model<DriverDocument> {
   findByChatId(chatId: string): Promise<DriverDocument | null>;
   getStatusCounts(): Promise<{ _id: string; count: number }[]>;
+  findNearby(
+    lat: number,
+    lon: number,
+    maxKm: number,
+    opts?: { query?: Record<string, unknown>; limit?: number }
+  ): Promise<(DriverDocument & { distanceM: number })[]>;
 }
 
 export const Driver =
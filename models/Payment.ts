@@ -0,0 +1,174 @@
+import mongoose, { Schema, Model, Document, Types } from "mongoose";
+
+/* ------------------------------------------------------------------ */
+/* 1 ▸  states & allowed moves                                        */
+/* ------------------------------------------------------------------ */
+export const PAYMENT_STATES = ["initiated", "pending", "paid", "failed", "refunded"] as const;
+export type PaymentState = typeof PAYMENT_STATES[number];
+
+export const PAYMENT_TRANSITIONS: Record<PaymentState, PaymentState[]> = {
+  initiated: ["pending", "paid", "failed"],
+  pending:   ["paid", "failed"],
+  paid:      ["refunded"],
+  failed:    [],
+  refunded:  []
+};
+
+/* ------------------------------------------------------------------ */
+/* 2 ▸  sub‑schema: one entry per state change                        */
+/* ------------------------------------------------------------------ */
+const Transition = new Schema(
+  {
+    from:   String,                   // null for the initial entry
+    to:     { type: String, required: true },
+    at:     { type: Date, default: Date.now },
+    source: String,                   // checkout | itn | rider | driver | admin
+    note:   String
+  },
+  { _id: false }
+);
+
+/* ------------------------------------------------------------------ */
+/* 3 ▸  main Payment schema                                           */
+/* ------------------------------------------------------------------ */
+const PaymentSchema = new Schema(
+  {
+    // what is being paid for: a trip, or a driver's platform subscription
+    purpose:      { type: String, enum: ["trip", "subscription"], default: "trip" },
+    trip:         { type: Schema.Types.ObjectId, ref: "TripRequest", index: true },
+    plan:         String,             // subscription plan key
+    riderChatId:  { type: String, index: true },
+    driverChatId: { type: String, index: true },
+
+    method:      { type: String, enum: ["online", "cash"], required: true },
+    amount:      { type: Number, required: true },
+    currency:    { type: String, default: "ZAR" },
+    provider:    String,              // payfast
+    providerRef: String,              // pf_payment_id
+
+    // same key ⇒ same payment, however often the request is repeated
+    idempotencyKey: { type: String, required: true, unique: true },
+
+    state:   { type: String, enum: PAYMENT_STATES, default: "initiated" },
+    history: { type: [Transition], default: [] }
+  },
+  { timestamps: true }
+);
+
+/* ------------------------------------------------------------------ */
+/* 4 ▸  statics                                                       */
+/* ------------------------------------------------------------------ */
+
+/** Create the payment for `key`, or return the one that already exists. */
+PaymentSchema.statics.initiate = async function (
+  key: string,
+  data: Record<string, unknown> & { source?: string }
+) {
+  const { source, ...fields } = data;
+  try {
+    return await this.findOneAndUpdate(
+      { idempotencyKey: key },
+      {
+        $setOnInsert: {
+          ...fields,
+          idempotencyKey: key,
+          state: "initiated",
+          history: [{ from: null, to: "initiated", at: new Date(), source }]
+        }
+      },
+      { upsert: true, new: true }
+    );
+  } catch (err: unknown) {
+    // two concurrent upserts: the loser hits the unique index
+    if ((err as { code?: number } | null)?.code === 11000) return this.findOne({ idempotencyKey: key });
+    throw err;
+  }
+};
+
+/**
+ * Like initiate, but a failed payment does not block trying again: the
+ * attempts after a failure are keyed `key#2`, `key#3`, … Resolves to the
+ * first attempt under `key` that has not failed.
+ */
+PaymentSchema.statics.attempt = async function (
+  key: string,
+  data: Record<string, unknown> & { source?: string }
+) {
+  for (let n = 1; ; n++) {
+    const payment: PaymentDocument = await (this as PaymentModel).initiate(n === 1 ? key : `${key}#${n}`, data);
+    if (payment.state !== "failed") return payment;
+  }
+};
+
+/**
+ * Move a payment to `to` if allowed from its current state. The update is
+ * conditional on that state, so replays resolve to null instead of
+ * applying twice.
+ */
+PaymentSchema.statics.transition = async function (
+  id: unknown,
+  to: PaymentState,
+  opts: { source?: string; note?: string; set?: Record<string, unknown> } = {}
+) {
+  const current = await this.findById(id);
+  if (!current || !PAYMENT_TRANSITIONS[current.state as PaymentState].includes(to)) return null;
+
+  return this.findOneAndUpdate(
+    { _id: current._id, state: current.state },
+    {
+      $set: { ...opts.set, state: to },
+      $push: {
+        history: { from: current.state, to, at: new Date(), source: opts.source, note: opts.note }
+      }
+    },
+    { new: true }
+  );
+};
+
+/* ------------------------------------------------------------------ */
+/* 5 ▸  export                                                        */
+/* ------------------------------------------------------------------ */
+export interface PaymentTransition {
+  from?: PaymentState | null;
+  to: PaymentState;
+  at: Date;
+  source?: string;
+  note?: string;
+}
+
+export interface PaymentDocument extends Document {
+  purpose: "trip" | "subscription";
+  trip?: Types.ObjectId;
+  plan?: string;
+  riderChatId?: string;
+  driverChatId?: string;
+  method: "online" | "cash";
+  amount: number;
+  currency: string;
+  provider?: string;
+  providerRef?: string;
+  idempotencyKey: string;
+  state: PaymentState;
+  history: PaymentTransition[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+export interface PaymentModel extends Model<PaymentDocument> {
+  initiate(
+    key: string,
+    data: Record<string, unknown> & { source?: string }
+  ): Promise<PaymentDocument>;
+  attempt(
+    key: string,
+    data: Record<string, unknown> & { source?: string }
+  ): Promise<PaymentDocument>;
+  transition(
+    id: unknown,
+    to: PaymentState,
+    opts?: { source?: string; note?: string; set?: Record<string, unknown> }
+  ): Promise<PaymentDocument | null>;
+}
+
+export const Payment =
+  (mongoose.models.Payment as PaymentModel) ||
+  mongoose.model<PaymentDocument, PaymentModel>("Payment", PaymentSchema);
@@ -0,0 +1,49 @@
+import mongoose, { Schema, Model, Document } from "mongoose";
+
+/* ------------------------------------------------------------------ */
+/* 1 ▸  main PayoutStatement schema                                   */
+/* ------------------------------------------------------------------ */
+// One per driver per Monday‑to‑Sunday week (SAST), built from the
+// WalletEntry ledger by jobs/weeklyStatements.ts.
+const PayoutStatementSchema = new Schema(
+  {
+    driverChatId:   { type: String, required: true },
+    periodStart:    { type: Date, required: true },
+    periodEnd:      { type: Date, required: true },   // exclusive
+
+    openingBalance: { type: Number, required: true },
+    earnings:       { type: Number, default: 0 },      // trip_earning
+    commission:     { type: Number, default: 0 },      // commission (≤ 0)
+    payouts:        { type: Number, default: 0 },      // payout (≤ 0)
+    adjustments:    { type: Number, default: 0 },
+    closingBalance: { type: Number, required: true },
+    tripCount:      { type: Number, default: 0 },
+    notifiedAt:     Date
+  },
+  { timestamps: true }
+);
+
+PayoutStatementSchema.index({ driverChatId: 1, periodStart: -1 }, { unique: true });
+
+/* ------------------------------------------------------------------ */
+/* 2 ▸  export                                                        */
+/* ------------------------------------------------------------------ */
+export interface PayoutStatementDocument extends Document {
+  driverChatId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  openingBalance: number;
+  earnings: number;
+  commission: number;
+  payouts: number;
+  adjustments: number;
+  closingBalance: number;
+  tripCount: number;
+  notifiedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const PayoutStatement =
+  (mongoose.models.PayoutStatement as Model<PayoutStatementDocument>) ||
+  mongoose.model<PayoutStatementDocument>("PayoutStatement", PayoutStatementSchema);
@@ -0,0 +1,94 @@
+import mongoose, { Schema, Model, Document } from "mongoose";
+
+/* ------------------------------------------------------------------ */
+/* 0 ▸  saved place slots                                             */
+/* ------------------------------------------------------------------ */
+export const PLACE_KEYS = ["home", "work"] as const;
+export type PlaceKey = typeof PLACE_KEYS[number];
+
+/** Also the reply‑keyboard button text offered when asking for a drop‑off. */
+export const PLACE_LABELS: Record<PlaceKey, string> = {
+  home: "🏠 Home",
+  work: "🏢 Work"
+};
+
+export const isPlaceKey = (k: string): k is PlaceKey =>
+  (PLACE_KEYS as readonly string[]).includes(k);
+
+/* ------------------------------------------------------------------ */
+/* 1 ▸  sub‑schema for a saved place                                  */
+/* ------------------------------------------------------------------ */
+const Place = new Schema(
+  {
+    address: { type: String, required: true },
+    lat:     { type: Number, required: true },
+    lon:     { type: Number, required: true }
+  },
+  { _id: false }
+);
+
+/* ------------------------------------------------------------------ */
+/* 2 ▸  main Rider schema                                             */
+/* ------------------------------------------------------------------ */
+const RiderSchema = new Schema(
+  {
+    chatId:           { type: String, required: true, unique: true },
+    telegramUsername: String,
+    name:             String,
+
+    // only set from a contact the rider shared from their own account
+    phone:           String,
+    phoneVerifiedAt: Date,
+
+    places: {
+      home: Place,
+      work: Place
+    },
+
+    // rolling average of driver ratings (controllers/ratingController.ts)
+    rating: {
+      average: Number,
+      count:   { type: Number, default: 0 }
+    }
+  },
+  { timestamps: true }
+);
+
+/* ------------------------------------------------------------------ */
+/* 3 ▸  statics                                                       */
+/* ------------------------------------------------------------------ */
+RiderSchema.statics.findOrCreate = function (chatId: string, telegramUsername?: string) {
+  return this.findOneAndUpdate(
+    { chatId },
+    { $setOnInsert: { chatId, telegramUsername } },
+    { upsert: true, new: true }
+  );
+};
+
+/* ------------------------------------------------------------------ */
+/* 4 ▸  export                                                        */
+/* ------------------------------------------------------------------ */
+export interface SavedPlace {
+  address: string;
+  lat: number;
+  lon: number;
+}
+
+export interface RiderDocument extends Document {
+  chatId: string;
+  telegramUsername?: string;
+  name?: string;
+  phone?: string;
+  phoneVerifiedAt?: Date;
+  places: Partial<Record<PlaceKey, SavedPlace>>;
+  rating?: { average?: number; count: number };
+  createdAt: Date;
+  updatedAt: Date;
+}
+export interface RiderModel extends Model<RiderDocument> {
+  findOrCreate(chatId: string, telegramUsername?: string): Promise<RiderDocument>;
+}
+
+export const Rider =
+  (mongoose.models.Rider as RiderModel) ||
+  mongoose.model<RiderDocument, RiderModel>("Rider", RiderSchema);
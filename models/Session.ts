@@ -0,0 +1,26 @@
+// backend/models/Session.ts
+
+import mongoose, { Model, Schema } from 'mongoose'
+
+/**
+ * Bot conversation state, keyed `<scope>:<chatId>`. Mongo's TTL monitor
+ * removes a session shortly after `expiresAt`; readers also check it so
+ * an expired session is never used in the meantime.
+ */
+const SessionSchema = new Schema({
+  _id:       { type: String, required: true },
+  value:     { type: Schema.Types.Mixed },
+  expiresAt: { type: Date, required: true }
+}, { timestamps: true })
+
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+
+export interface SessionDocument {
+  _id:       string
+  value:     unknown
+  expiresAt: Date
+}
+
+export const Session =
+  (mongoose.models.Session as Model<SessionDocument>) ||
+  mongoose.model<SessionDocument>('Session', SessionSchema)
@@ -0,0 +1,38 @@
+// backend/models/TripMessage.ts
+
+import mongoose, { Document, Model, Schema, Types } from 'mongoose'
+
+export type RelayParty = 'rider' | 'driver'
+
+/**
+ * One message relayed between rider and driver during a trip. Neither
+ * side sees the other's Telegram account or number; the log is kept for
+ * dispute handling.
+ */
+const TripMessageSchema = new Schema({
+  trip:            { type: Schema.Types.ObjectId, ref: 'TripRequest', required: true },
+  from:            { type: String, enum: ['rider', 'driver'], required: true },
+  senderChatId:    { type: String, required: true },
+  recipientChatId: { type: String, required: true },
+  text:            { type: String, required: true },
+  deliveredAt:     Date,
+  error:           String           // Telegram error when delivery failed
+}, { timestamps: true })
+
+TripMessageSchema.index({ trip: 1, createdAt: 1 })
+
+export interface TripMessageDocument extends Document {
+  trip:            Types.ObjectId
+  from:            RelayParty
+  senderChatId:    string
+  recipientChatId: string
+  text:            string
+  deliveredAt?:    Date
+  error?:          string
+  createdAt:       Date
+  updatedAt:       Date
+}
+
+export const TripMessage =
+  (mongoose.models.TripMessage as Model<TripMessageDocument>) ||
+  mongoose.model<TripMessageDocument>('TripMessage', TripMessageSchema)
@@ -1,36 +1,269 @@
 // backend/models/TripRequest.ts
 
-import mongoose, { Document, Schema } from 'mongoose'
+import mongoose, { Document, Model, Schema, Types } from 'mongoose'
+import { publish, rooms } from '../utils/realtime'
+
+export type TripStatus =
+  'scheduled' | 'pending' | 'accepted' | 'arrived' | 'started' | 'completed' | 'cancelled'
+
+/** Allowed status moves — every change goes through TripRequest.transition. */
+export const TRIP_TRANSITIONS: Record<TripStatus, TripStatus[]> = {
+  scheduled: ['pending', 'cancelled'],          // released to dispatch before pickup
+  pending:   ['accepted', 'scheduled', 'cancelled'],
+  accepted:  ['arrived', 'cancelled'],
+  arrived:   ['started', 'cancelled'],
+  started:   ['completed'],
+  completed: [],
+  cancelled: []
+}
+
+/** Statuses in which a rider and driver are paired up. */
+export const ACTIVE_TRIP_STATUSES: TripStatus[] = ['accepted', 'arrived', 'started']
+
+export type CancelledBy = 'rider' | 'driver' | 'system'
+
+export type OfferResponse = 'pending' | 'accepted' | 'declined' | 'expired' | 'withdrawn'
+
+/** One offer sent to one driver during dispatch. */
+export interface TripOffer {
+  driverChatId: string
+  wave:         number
+  radiusKm:     number
+  distanceKm:   number
+  messageId?:   number
+  offeredAt:    Date
+  respondedAt?: Date
+  response:     OfferResponse
+}
+
+export interface TripDispatch {
+  state:      'idle' | 'searching' | 'matched' | 'unmatched'
+  wave:       number
+  radiusKm?:  number
+  nextWaveAt?: Date
+  startedAt?: Date
+  endedAt?:   Date
+  reason?:    string
+}
+
+export interface TripFare {
+  currency:     string
+  city:         string
+  distanceKm:   number
+  durationMin:  number
+  surge:        number
+  estimate:     number
+  final?:       number
+  confirmedAt?: Date
+}
+
+export type PaymentMethod = 'cash' | 'online'
+
+/** One side's verdict on a finished trip. */
+export interface TripRating {
+  stars:    number
+  comment?: string
+  at:       Date
+}
+
+/** Rider‑side view of the driver approaching pickup (rider‑bot message ids). */
+export interface TripTracking {
+  locationMessageId?: number     // live location pin
+  etaMessageId?:      number     // distance / ETA text, edited in place
+  updatedAt?:         Date       // last refresh, for throttling
+  nearAt?:            Date       // "almost there" alert sent
+}
+
+export interface TripPayment {
+  status:       'unpaid' | 'paid'
+  amount?:      number
+  paidAt?:      Date
+  provider?:    string
+  providerRef?: string
+}
 
 export interface TripRequestDocument extends Document {
   riderChatId: string
   riderName:   string
   riderCName?: string
-  dropoff?:    string
+  dropoff?:    string            // human‑readable label
+  dropoffLocation?: { lat?: number; lon?: number }
   pickup:      { lat?: number; lon?: number }
+  vehicleClass: string
+  scheduledFor?: Date            // advance booking: requested pickup time
+  remindersSent?: number[]       // minutes‑before thresholds already reminded
+  heldAt?:      Date             // release waited for the rider's other ride to end
+  fare?:       TripFare
+  paymentMethod?: PaymentMethod
+  payment:     TripPayment
   driverChatId?: string
-  status:      'pending' | 'accepted' | 'completed' | 'cancelled'
+  vehicle?:    Types.ObjectId
+  status:      TripStatus
+  scheduledAt?: Date
+  pendingAt?:   Date
+  acceptedAt?:  Date
+  arrivedAt?:   Date
+  startedAt?:   Date
+  completedAt?: Date
+  cancelledAt?: Date
+  cancellation?: { by: CancelledBy; reason: string }
+  ratings?:    { byRider?: TripRating; byDriver?: TripRating }
+  tracking?:   TripTracking
+  dispatch:    TripDispatch
+  offers:      TripOffer[]
   createdAt:   Date
   updatedAt:   Date
 }
 
+const RatingSchema = new Schema<TripRating>({
+  stars:   { type: Number, min: 1, max: 5, required: true },
+  comment: String,
+  at:      { type: Date, default: Date.now }
+}, { _id: false })
+
+const OfferSchema = new Schema<TripOffer>({
+  driverChatId: { type: String, required: true },
+  wave:         { type: Number, required: true },
+  radiusKm:     Number,
+  distanceKm:   Number,
+  messageId:    Number,
+  offeredAt:    { type: Date, default: Date.now },
+  respondedAt:  Date,
+  response: {
+    type: String,
+    enum: ['pending','accepted','declined','expired','withdrawn'],
+    default: 'pending'
+  }
+}, { _id: false })
+
 const TripRequestSchema = new Schema<TripRequestDocument>({
   riderChatId: { type: String, required: true },
   riderName:   { type: String, required: true },
   riderCName:  String,
   dropoff:     String,
+  dropoffLocation: {
+    lat: Number,
+    lon: Number
+  },
   pickup: {
     lat: Number,
     lon: Number
   },
+  vehicleClass: { type: String, default: 'economy' },
+  scheduledFor:  Date,
+  remindersSent: { type: [Number], default: undefined },
+  heldAt:        Date,
+  fare: {
+    currency:    { type: String, default: 'ZAR' },
+    city:        String,
+    distanceKm:  Number,
+    durationMin: Number,
+    surge:       Number,
+    estimate:    Number,
+    final:       Number,
+    confirmedAt: Date
+  },
+  paymentMethod: { type: String, enum: ['cash','online'] },
+  payment: {
+    status:      { type: String, enum: ['unpaid','paid'], default: 'unpaid' },
+    amount:      Number,
+    paidAt:      Date,
+    provider:    String,           // "payfast"
+    providerRef: String            // pf_payment_id
+  },
   driverChatId: String,
+  vehicle:      { type: Schema.Types.ObjectId, ref: 'Vehicle' },   // driver's active vehicle at accept
   status: {
     type: String,
-    enum: ['pending','accepted','completed','cancelled'],
+    enum: Object.keys(TRIP_TRANSITIONS),
     default: 'pending'
-  }
+  },
+  // stamped by transition() as `${status}At`; pendingAt = booking released to dispatch
+  scheduledAt: Date,
+  pendingAt:   Date,
+  acceptedAt:  Date,
+  arrivedAt:   Date,
+  startedAt:   Date,
+  completedAt: Date,
+  cancelledAt: Date,
+  cancellation: {
+    by:     { type: String, enum: ['rider','driver','system'] },
+    reason: String
+  },
+  ratings: {
+    byRider:  RatingSchema,        // rider → driver
+    byDriver: RatingSchema         // driver → rider
+  },
+  tracking: {
+    locationMessageId: Number,
+    etaMessageId:      Number,
+    updatedAt:         Date,
+    nearAt:            Date
+  },
+  dispatch: {
+    state: {
+      type: String,
+      enum: ['idle','searching','matched','unmatched'],
+      default: 'idle'
+    },
+    wave:      { type: Number, default: 0 },
+    radiusKm:  Number,
+    nextWaveAt: Date,              // when the search moves on unless someone accepts
+    startedAt: Date,
+    endedAt:   Date,
+    reason:    String            // e.g. "no drivers within 10 km"
+  },
+  offers: { type: [OfferSchema], default: [] }
 }, { timestamps: true })
 
-export const TripRequest = mongoose.model<TripRequestDocument>(
+// driver dashboard: current trip, history and earnings
+TripRequestSchema.index({ driverChatId: 1, createdAt: -1 })
+// scheduled rides job and the rider's upcoming bookings
+TripRequestSchema.index({ status: 1, scheduledFor: 1 })
+// searches to resume after a restart (jobs/dispatchRecovery.ts)
+TripRequestSchema.index({ 'dispatch.state': 1, 'dispatch.nextWaveAt': 1 })
+
+export interface TransitionOptions {
+  set?:          Record<string, unknown>
+  where?:        Record<string, unknown>
+  arrayFilters?: Record<string, unknown>[]
+}
+
+/**
+ * Compare‑and‑set status change: only succeeds when the trip is currently
+ * in a status that may move to `to`. Stamps `<to>At` alongside and
+ * publishes `trip:status` to the trip, its driver and the admin room.
+ * Resolves to the updated trip, or null if the move was not allowed.
+ */
+TripRequestSchema.statics.transition = async function (
+  id: unknown,
+  to: TripStatus,
+  { set = {}, where = {}, arrayFilters }: TransitionOptions = {}
+) {
+  const from = (Object.keys(TRIP_TRANSITIONS) as TripStatus[])
+    .filter(s => TRIP_TRANSITIONS[s].includes(to))
+  const at = new Date()
+  const trip: TripRequestDocument | null = await this.findOneAndUpdate(
+    { _id: id, status: { $in: from }, ...where },
+    { $set: { ...set, status: to, [`${to}At`]: at } },
+    { new: true, arrayFilters }
+  )
+  if (trip) {
+    const targets = [rooms.trip(trip.id), rooms.admin]
+    if (trip.driverChatId) targets.push(rooms.driver(trip.driverChatId))
+    publish(targets, 'trip:status', {
+      tripId: trip.id, status: to, at, driverChatId: trip.driverChatId, cancellation: trip.cancellation
+    })
+  }
+  return trip
+}
+
+export interface TripRequestModel extends Model<TripRequestDocument> {
+  transition(
+    id: unknown, to: TripStatus, opts?: TransitionOptions
+  ): Promise<TripRequestDocument | null>
+}
+
+export const TripRequest = mongoose.model<TripRequestDocument, TripRequestModel>(
   'TripRequest', TripRequestSchema
 )
@@ -0,0 +1,106 @@
+import mongoose, { Schema, Model, Document } from "mongoose";
+import { DriverFile, FileSchema } from "./Driver";
+
+/* ------------------------------------------------------------------ */
+/* 0 ▸  vehicle classes & per‑vehicle documents                       */
+/* ------------------------------------------------------------------ */
+// the same keys as the fare table classes in utils/fare.ts
+export const VEHICLE_CLASSES = ["economy", "xl"] as const;
+export type VehicleClass = typeof VEHICLE_CLASSES[number];
+
+export const VEHICLE_CLASS_LABELS: Record<VehicleClass, string> = {
+  economy: "Economy",
+  xl: "XL"
+};
+
+/** Passenger seats a vehicle needs to be listed in a class. */
+export const CLASS_MIN_SEATS: Record<VehicleClass, number> = {
+  economy: 4,
+  xl: 6
+};
+
+export const isVehicleClass = (c: unknown): c is VehicleClass =>
+  (VEHICLE_CLASSES as readonly unknown[]).includes(c);
+
+export const vehicleClassLabel = (c: string) => isVehicleClass(c) ? VEHICLE_CLASS_LABELS[c] : c;
+
+export const VEHICLE_DOC_KEYS = ["vehiclePhoto", "vehicleRegistration", "licenseDisc"] as const;
+export type VehicleDocKey = typeof VEHICLE_DOC_KEYS[number];
+
+export const VEHICLE_DOC_LABELS: Record<VehicleDocKey, string> = {
+  vehiclePhoto: "Vehicle Photo (with plate)",
+  vehicleRegistration: "Vehicle Registration / LogBook",
+  licenseDisc: "Vehicle License Disc"
+};
+
+/** Order of the /vehicles set‑up flow in the driver bot. */
+export const VEHICLE_SETUP_STEPS = [
+  "make", "model", "color", "plate", "seats", "class", "documents", "completed"
+] as const;
+export type VehicleSetupStep = typeof VEHICLE_SETUP_STEPS[number];
+
+export const VEHICLE_STATUSES = ["pending", "approved", "rejected"] as const;
+export type VehicleStatus = typeof VEHICLE_STATUSES[number];
+
+/* ------------------------------------------------------------------ */
+/* 1 ▸  main Vehicle schema                                           */
+/* ------------------------------------------------------------------ */
+// A driver may register several vehicles; the one picked for a shift is
+// Driver.activeVehicle.
+const VehicleSchema = new Schema(
+  {
+    driverChatId: { type: String, required: true, index: true },
+    make:         String,
+    vehicleModel: String,                 // `model` is taken by mongoose.Document
+    color:        String,
+    plate:        { type: String, uppercase: true, trim: true },
+    seats:        Number,                 // passenger seats
+    vehicleClass: { type: String, enum: VEHICLE_CLASSES },
+
+    setupStep: { type: String, enum: VEHICLE_SETUP_STEPS, default: "make" },
+    status:    { type: String, enum: VEHICLE_STATUSES, default: "pending" },
+    statusReason: String,
+    reviewedAt:   Date,
+
+    documents: {
+      vehiclePhoto:        FileSchema,
+      vehicleRegistration: FileSchema,
+      licenseDisc:         FileSchema
+    }
+  },
+  { timestamps: true }
+);
+
+VehicleSchema.index({ plate: 1 });
+
+/* ------------------------------------------------------------------ */
+/* 2 ▸  virtual: true if every vehicle document exists                */
+/* ------------------------------------------------------------------ */
+VehicleSchema.virtual("documentsComplete").get(function (this: any) {
+  return VEHICLE_DOC_KEYS.every((k) => this.documents?.[k]?.cloudUrl);
+});
+
+/* ------------------------------------------------------------------ */
+/* 3 ▸  export                                                        */
+/* ------------------------------------------------------------------ */
+export interface VehicleDocument extends Document {
+  driverChatId: string;
+  make?: string;
+  vehicleModel?: string;
+  color?: string;
+  plate?: string;
+  seats?: number;
+  vehicleClass?: VehicleClass;
+  setupStep: VehicleSetupStep;
+  status: VehicleStatus;
+  statusReason?: string;
+  reviewedAt?: Date;
+  documents: Partial<Record<VehicleDocKey, DriverFile>>;
+  documentsComplete: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const Vehicle =
+  (mongoose.models.Vehicle as Model<VehicleDocument>) ||
+  mongoose.model<VehicleDocument>("Vehicle", VehicleSchema);
@@ -0,0 +1,90 @@
+import mongoose, { Schema, Model, Document, Types } from "mongoose";
+
+/* ------------------------------------------------------------------ */
+/* 1 ▸  entry types                                                   */
+/* ------------------------------------------------------------------ */
+// amounts are signed from the driver's point of view:
+//   + the platform owes the driver, − the driver owes the platform
+export const WALLET_ENTRY_TYPES = [
+  "trip_earning",   // online trip: fare collected by us, driver's share credited
+  "commission",     // cash trip: driver kept the fare, our commission debited
+  "payout",         // money paid out to the driver
+  "adjustment"      // manual correction by an admin
+] as const;
+export type WalletEntryType = typeof WALLET_ENTRY_TYPES[number];
+
+/* ------------------------------------------------------------------ */
+/* 2 ▸  main WalletEntry schema                                       */
+/* ------------------------------------------------------------------ */
+const WalletEntrySchema = new Schema(
+  {
+    driverChatId: { type: String, required: true },
+    trip:         { type: Schema.Types.ObjectId, ref: "TripRequest" },
+    type:         { type: String, enum: WALLET_ENTRY_TYPES, required: true },
+    amount:       { type: Number, required: true },
+    fare:           Number,           // gross trip fare the entry is based on
+    commissionRate: Number,           // 0.2 = 20 %
+    reference:      String,           // payout / adjustment reference
+    note:           String,
+
+    // same key ⇒ same entry, however often a trip settles
+    idempotencyKey: { type: String, required: true, unique: true }
+  },
+  { timestamps: true }
+);
+
+WalletEntrySchema.index({ driverChatId: 1, createdAt: 1 });
+
+/* ------------------------------------------------------------------ */
+/* 3 ▸  statics                                                       */
+/* ------------------------------------------------------------------ */
+
+/** Record the entry for `key`, or return the one that already exists. */
+WalletEntrySchema.statics.post = async function (key: string, data: Record<string, unknown>) {
+  try {
+    return await this.findOneAndUpdate(
+      { idempotencyKey: key },
+      { $setOnInsert: { ...data, idempotencyKey: key } },
+      { upsert: true, new: true }
+    );
+  } catch (err: unknown) {
+    if ((err as { code?: number } | null)?.code === 11000) return this.findOne({ idempotencyKey: key });
+    throw err;
+  }
+};
+
+/** Sum of a driver's entries created before `before` (all of them by default). */
+WalletEntrySchema.statics.balanceOf = async function (driverChatId: string, before?: Date) {
+  const match: Record<string, unknown> = { driverChatId };
+  if (before) match.createdAt = { $lt: before };
+  const [row] = await this.aggregate([
+    { $match: match },
+    { $group: { _id: null, total: { $sum: "$amount" } } }
+  ]);
+  return Math.round((row?.total ?? 0) * 100) / 100;
+};
+
+/* ------------------------------------------------------------------ */
+/* 4 ▸  export                                                        */
+/* ------------------------------------------------------------------ */
+export interface WalletEntryDocument extends Document {
+  driverChatId: string;
+  trip?: Types.ObjectId;
+  type: WalletEntryType;
+  amount: number;
+  fare?: number;
+  commissionRate?: number;
+  reference?: string;
+  note?: string;
+  idempotencyKey: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+export interface WalletEntryModel extends Model<WalletEntryDocument> {
+  post(key: string, data: Record<string, unknown>): Promise<WalletEntryDocument>;
+  balanceOf(driverChatId: string, before?: Date): Promise<number>;
+}
+
+export const WalletEntry =
+  (mongoose.models.WalletEntry as WalletEntryModel) ||
+  mongoose.model<WalletEntryDocument, WalletEntryModel>("WalletEntry", WalletEntrySchema);
@@ -1,7 +1,27 @@
 import 'dotenv/config';
 import TelegramBot, { Message, CallbackQuery, Update } from 'node-telegram-bot-api';
-import { Driver } from './models/Driver';
-import { TripRequest, TripRequestDocument } from './models/TripRequest';
+import {
+  TRIP_TRANSITIONS, TripRequest, TripRequestDocument
+} from './models/TripRequest';
+import { isPlaceKey, PLACE_KEYS, PLACE_LABELS, PlaceKey, Rider, RiderDocument } from './models/Rider';
+import { escapeHtml } from './utils/escapeHtml';
+import { DEFAULT_VEHICLE_CLASS, estimateFare, FareQuote, formatZar } from './utils/fare';
+import { isVehicleClass, VEHICLE_CLASSES, vehicleClassLabel } from './models/Vehicle';
+import { getGeocoder, GeocodeResult } from './utils/geocoder';
+import { createSessionStore, SESSION_TTL_MS } from './utils/sessionStore';
+import { chooseCash, paymentLinkFor } from './controllers/paymentController';
+import { dispatchTrip } from './controllers/dispatchController';
+import { addComment, awaitingComment, commentKeyboard, rateTrip } from './controllers/ratingController';
+import { MAX_RELAY_LENGTH, relayMessage } from './controllers/relayController';
+import { relayRiderLocation } from './controllers/trackingController';
+import { eraseRider, exportFile, riderExport } from './controllers/privacyController';
+import {
+  DISPATCH_LEAD_MIN, formatPickup, MAX_AHEAD_DAYS, MAX_UPCOMING, MIN_AHEAD_MIN, parsePickupTime,
+  pickupTimeProblem, upcomingFor
+} from './controllers/scheduleController';
+import {
+  cancelReasonKeyboard, cancelReasonLabel, cancelTrip, openTripFor, riderActions
+} from './controllers/tripController';
 
 /*─────────────────────────────────────────────────────────────────────*/
 /* 1 ▸ Rider‑bot instance                                             */
@@ -33,8 +53,16 @@ riderBot.onText(/^\/help$/, msg =>
     msg.chat.id,
     '❓ *Help*\n' +
     '/ride – Book a ride\n' +
+    '/schedule – Book a ride for later\n' +
+    '/bookings – Your upcoming bookings\n' +
+    '/profile – Your name, number and saved places\n' +
+    '/mydata – Download the data we hold about you\n' +
+    '/deleteme – Delete your data\n' +
+    '/back – Previous booking question\n' +
+    '/cancel – Stop booking or cancel your ride\n' +
     '/pay – Proceed to payment\n' +
-    '/help – Show this message',
+    '/help – Show this message\n\n' +
+    '💬 During a trip, just type here to message your driver.',
     { parse_mode: 'Markdown' }
   )
 );
@@ -42,69 +70,437 @@ riderBot.onText(/^\/help$/, msg =>
 /*─────────────────────────────────────────────────────────────────────*/
 /* 3 ▸ Ride‑request state                                              */
 /*─────────────────────────────────────────────────────────────────────*/
-type RideStep = 'ask_name' | 'ask_cname' | 'ask_dropoff' | 'ask_location' | 'ask_payment';
-const rideSession = new Map<string, RideStep>();
+type RideStep =
+  | 'ask_name' | 'ask_phone' | 'ask_time' | 'ask_dropoff' | 'ask_pickup' | 'ask_location' | 'confirm_fare'
+  | 'edit_name' | 'edit_phone' | 'place_home' | 'place_work' | 'rate_comment';
+const rideSession = createSessionStore<RideStep>('rider');
 
-/*─────────────────────────────────────────────────────────────────────*/
-/* 4 ▸ /ride – kick off booking                                         */
-/*─────────────────────────────────────────────────────────────────────*/
-riderBot.onText(/^\/ride$/, msg => {
-  const chat = String(msg.chat.id);
-  rideSession.set(chat, 'ask_name');
+/** The unconfirmed booking the rider is filling in, if any. */
+const draftFor = (chat: string) =>
+  TripRequest.findOne({
+    riderChatId: chat, status: 'pending', 'fare.confirmedAt': { $exists: false }
+  }).sort({ createdAt: -1 });
+
+/** Close drafts and searches that found no driver so a new booking can start. */
+async function discardStaleBookings(chat: string) {
+  const stale = await TripRequest.find({
+    riderChatId: chat,
+    status: 'pending',
+    $or: [{ 'fare.confirmedAt': { $exists: false } }, { 'dispatch.state': 'unmatched' }]
+  });
+  for (const t of stale) {
+    await TripRequest.transition(t._id, 'cancelled', {
+      set: {
+        cancellation: t.fare?.confirmedAt
+          ? { by: 'system', reason: 'No driver found' }
+          : { by: 'rider', reason: 'Booking abandoned' }
+      }
+    });
+  }
+}
+
+/**
+ * Rebuild the step for a rider whose session expired or was lost in a
+ * restart, from the unconfirmed booking they were filling in.
+ */
+async function resumeRide(chat: string): Promise<RideStep | undefined> {
+  const trip = await draftFor(chat);
+  if (!trip || trip.createdAt.getTime() < Date.now() - SESSION_TTL_MS) return undefined;
+
+  if (!trip.dropoff) return 'ask_dropoff';
+  if (trip.pickup?.lat == null) return trip.scheduledFor ? 'ask_pickup' : 'ask_location';
+  return 'confirm_fare';
+}
+
+/** One line per vehicle class, e.g. "🚗 Economy: R 52.00". */
+const classFareLine = (q: FareQuote) =>
+  `🚗 ${vehicleClassLabel(q.vehicleClass)}: ` +
+  `<b>${formatZar(q.amount)}</b>` + (q.surge > 1 ? ` (surge ×${q.surge})` : '');
+
+const fareText = (trip: TripRequestDocument, quotes: FareQuote[]) =>
+  '💰 <b>Fare estimate</b>\n' +
+  (trip.scheduledFor ? `🗓 Pickup: ${formatPickup(trip.scheduledFor)}\n` : '') +
+  `🏁 To: ${escapeHtml(trip.dropoff ?? '—')}\n` +
+  `📏 ~${quotes[0].distanceKm.toFixed(1)} km · ⏱ ~${quotes[0].durationMin} min\n\n` +
+  quotes.map(classFareLine).join('\n') +
+  (trip.scheduledFor ? '\n\nChoose a class to book this ride.' : '\n\nChoose a class to find a driver.');
+
+/** Quote the draft's route in one vehicle class. */
+const quoteFor = (trip: TripRequestDocument, vehicleClass: string) =>
+  estimateFare(
+    { lat: trip.pickup.lat!, lon: trip.pickup.lon! },
+    { lat: trip.dropoffLocation!.lat!, lon: trip.dropoffLocation!.lon! },
+    vehicleClass
+  );
+
+const fareFields = (q: FareQuote) => ({
+  currency: 'ZAR',
+  city: q.city,
+  distanceKm: q.distanceKm,
+  durationMin: q.durationMin,
+  surge: q.surge,
+  estimate: q.amount
+});
+
+const contactKeyboard = {
+  keyboard: [[{ text: '📱 Share my number', request_contact: true }]],
+  one_time_keyboard: true,
+  resize_keyboard: true
+};
+
+/**
+ * The rider's own number from a shared contact, in the same format the
+ * driver bot accepts; null for someone else's card or an odd number.
+ */
+function sharedPhone(msg: Message): string | null {
+  const c = msg.contact;
+  if (!c || c.user_id !== msg.from?.id) return null;
+  const phone = '+' + c.phone_number.replace(/\D/g, '');
+  return /^\+[1-9]\d{7,14}$/.test(phone) ? phone : null;
+}
+
+/** Drop‑off from a location pin, a saved place button or a typed address. */
+async function resolvePlace(msg: Message, rider?: RiderDocument): Promise<GeocodeResult | null> {
+  if (msg.location) {
+    const { latitude, longitude } = msg.location;
+    return {
+      lat: latitude, lon: longitude,
+      label: msg.venue?.title ?? `${latitude.toFixed(5)}, ${longitude.toFixed(5)}`
+    };
+  }
+  const text = msg.text?.trim();
+  if (!text) return null;
+  const saved = PLACE_KEYS.find(k => PLACE_LABELS[k] === text);
+  if (saved) {
+    const place = rider?.places?.[saved];
+    return place ? { lat: place.lat, lon: place.lon, label: place.address } : null;
+  }
+  return getGeocoder().geocode(text).catch(err => {
+    console.error('geocode failed:', err);
+    return null;
+  });
+}
+
+async function askName(chat: string) {
+  await rideSession.set(chat, 'ask_name');
+  return riderBot.sendMessage(chat, '🚕 *Book a ride*\nWhat’s your *name*?', {
+    parse_mode: 'Markdown', reply_markup: { remove_keyboard: true }
+  });
+}
+
+async function askPhone(chat: string, name: string) {
+  await rideSession.set(chat, 'ask_phone');
   return riderBot.sendMessage(
     chat,
-    '🚕 *Book a ride*\nWhat’s your *name*?',
-    { parse_mode: 'Markdown' }
+    `📞 Thanks, *${name}*! Please share your *contact number* so your driver can reach you:`,
+    { parse_mode: 'Markdown', reply_markup: contactKeyboard }
+  );
+}
+
+/** Ask for a place the rider can type, pin or pick from their saved places. */
+async function askPlace(chat: string, rider: RiderDocument, step: RideStep, question: string) {
+  await rideSession.set(chat, step);
+  const saved = PLACE_KEYS.filter(k => rider.places?.[k]).map(k => ({ text: PLACE_LABELS[k] }));
+  return riderBot.sendMessage(
+    chat,
+    `${question}\nType an address or send a 📎 location pin` +
+    (saved.length ? ', or pick a saved place.' : '.'),
+    {
+      reply_markup: saved.length
+        ? { keyboard: [saved], one_time_keyboard: true, resize_keyboard: true }
+        : { remove_keyboard: true }
+    }
+  );
+}
+
+const askDropoff = (chat: string, rider: RiderDocument) =>
+  askPlace(chat, rider, 'ask_dropoff', '🏁 Where would you like to go?');
+
+const askPickup = (chat: string, rider: RiderDocument) =>
+  askPlace(chat, rider, 'ask_pickup', '📍 Where should the driver pick you up?');
+
+async function askTime(chat: string) {
+  await rideSession.set(chat, 'ask_time');
+  return riderBot.sendMessage(
+    chat,
+    '🗓 *Schedule a ride*\nWhen should we pick you up? Send the date and time as\n' +
+    '`YYYY-MM-DD HH:MM`, `today HH:MM` or `tomorrow HH:MM`.',
+    { parse_mode: 'Markdown', reply_markup: { remove_keyboard: true } }
+  );
+}
+
+async function askLocation(chat: string) {
+  await rideSession.set(chat, 'ask_location');
+  return riderBot.sendMessage(
+    chat,
+    '📍 Please *share your live location* so drivers can find you:',
+    {
+      parse_mode: 'Markdown',
+      reply_markup: {
+        keyboard: [[{ text: 'Send location 📍', request_location: true }]],
+        one_time_keyboard: true,
+        resize_keyboard: true
+      }
+    }
   );
+}
+
+/** Reply for a rider who already has a ride on the go. */
+function alreadyBooked(chat: string, trip: TripRequestDocument) {
+  const rows = riderActions(trip);
+  return riderBot.sendMessage(chat,
+    '🚕 You already have a ride in progress. Finish or cancel it before booking another.',
+    rows.length ? { reply_markup: { inline_keyboard: rows } } : {}
+  );
+}
+
+/** Price the draft once pickup and drop‑off are known and ask for confirmation. */
+async function quoteFare(chat: string, trip: TripRequestDocument | null) {
+  if (!trip?.dropoffLocation?.lat || trip.pickup?.lat == null) {
+    await rideSession.delete(chat);
+    return riderBot.sendMessage(chat, '❌ Something went wrong with your booking. Send /ride to start again.');
+  }
+
+  // the draft carries the default class; the rider's pick replaces it on confirm
+  const quotes = VEHICLE_CLASSES.map(c => quoteFor(trip, c));
+  trip.set('fare', fareFields(quotes.find(q => q.vehicleClass === trip.vehicleClass) ?? quotes[0]));
+  await trip.save();
+
+  await rideSession.set(chat, 'confirm_fare');
+  return riderBot.sendMessage(chat, fareText(trip, quotes), {
+    parse_mode: 'HTML',
+    reply_markup: {
+      inline_keyboard: [
+        ...quotes.map(q => [{
+          text: `✅ ${vehicleClassLabel(q.vehicleClass)} · ${formatZar(q.amount)}`,
+          callback_data: `fare:ok:${trip.id}:${q.vehicleClass}`
+        }]),
+        ...riderActions(trip)
+      ]
+    }
+  });
+}
+
+/**
+ * Ask the first booking question the rider hasn't answered yet. Name and
+ * phone are asked once and kept on the Rider; once both are known the
+ * trip is created and we go straight to the drop‑off.
+ */
+async function continueBooking(chat: string, rider: RiderDocument) {
+  if (!rider.name) return askName(chat);
+  if (!rider.phoneVerifiedAt) return askPhone(chat, rider.name);
+
+  const open = await openTripFor(chat);
+  if (open) {
+    await rideSession.delete(chat);
+    return alreadyBooked(chat, open);
+  }
+  await TripRequest.create({
+    riderChatId: chat, riderName: rider.name, riderCName: rider.phone, status: 'pending'
+  });
+  return askDropoff(chat, rider);
+}
+
+/*─────────────────────────────────────────────────────────────────────*/
+/* 4 ▸ /ride, /schedule – kick off booking                              */
+/*─────────────────────────────────────────────────────────────────────*/
+riderBot.onText(/^\/ride$/, async (msg: Message) => {
+  const chat = String(msg.chat.id);
+  const rider = await Rider.findOrCreate(chat, msg.from?.username);
+  await discardStaleBookings(chat);
+  return continueBooking(chat, rider);
+});
+
+/** /schedule — book a ride for a later pickup time. */
+riderBot.onText(/^\/schedule$/, async (msg: Message) => {
+  const chat = String(msg.chat.id);
+  const rider = await Rider.findOrCreate(chat, msg.from?.username);
+  if (!rider.name || !rider.phoneVerifiedAt) {
+    return riderBot.sendMessage(chat, '📋 Please add your name and number in /profile before booking ahead.');
+  }
+  const upcoming = await upcomingFor(chat);
+  if (upcoming.length >= MAX_UPCOMING) {
+    return riderBot.sendMessage(chat,
+      `🗓 You already have ${upcoming.length} upcoming bookings. Cancel one in /bookings to book another.`);
+  }
+  await discardStaleBookings(chat);
+  return askTime(chat);
+});
+
+/** /bookings — upcoming scheduled rides, each with a cancel button. */
+riderBot.onText(/^\/bookings$/, async (msg: Message) => {
+  const chat = String(msg.chat.id);
+  const upcoming = await upcomingFor(chat);
+  if (!upcoming.length) {
+    return riderBot.sendMessage(chat, '🗓 You have no upcoming bookings. Send /schedule to book one.');
+  }
+  for (const trip of upcoming) {
+    await riderBot.sendMessage(chat,
+      `🗓 <b>${formatPickup(trip.scheduledFor!)}</b>\n` +
+      `🏁 To: ${escapeHtml(trip.dropoff ?? '—')}\n` +
+      (trip.fare?.estimate != null ? `💵 ~${formatZar(trip.fare.estimate)}` : ''),
+      { parse_mode: 'HTML', reply_markup: { inline_keyboard: riderActions(trip) } }
+    );
+  }
+});
+
+/** /cancel — stop booking at any step, or pick a reason to cancel a live ride. */
+riderBot.onText(/^\/cancel$/, async (msg: Message) => {
+  const chat = String(msg.chat.id);
+  const step = await rideSession.get(chat);
+  await rideSession.delete(chat);
+  const done = { reply_markup: { remove_keyboard: true } };
+
+  const draft = await draftFor(chat);
+  if (draft) {
+    await TripRequest.transition(draft._id, 'cancelled', {
+      set: { cancellation: { by: 'rider', reason: 'Cancelled while booking' } }
+    });
+    return riderBot.sendMessage(chat, '❌ Booking cancelled. Send /ride to start again.', done);
+  }
+
+  const open = await openTripFor(chat);
+  if (open && TRIP_TRANSITIONS[open.status].includes('cancelled')) {
+    return riderBot.sendMessage(chat, '❓ Why are you cancelling this ride?', {
+      reply_markup: { inline_keyboard: cancelReasonKeyboard(open.id, 'rider') }
+    });
+  }
+  if (open) return riderBot.sendMessage(chat, '⚠️ Your trip has already started and can’t be cancelled.');
+  return riderBot.sendMessage(chat, step ? '👌 Cancelled.' : 'ℹ️ There’s nothing to cancel.', done);
+});
+
+/** /back — return to the previous booking question. */
+riderBot.onText(/^\/back$/, async (msg: Message) => {
+  const chat = String(msg.chat.id);
+  const step = (await rideSession.get(chat)) ?? await resumeRide(chat);
+  const rider = await Rider.findOrCreate(chat, msg.from?.username);
+  const draft = await draftFor(chat);
+
+  switch (step) {
+    case 'ask_phone':
+      return askName(chat);
+    case 'ask_dropoff':
+      // a verified number is kept: for a ride now the drop‑off is the first question
+      if (!draft?.scheduledFor && rider.phoneVerifiedAt) {
+        return riderBot.sendMessage(chat, '↩️ This is the first question. Send /cancel to stop booking.');
+      }
+      if (draft) {
+        await TripRequest.transition(draft._id, 'cancelled', {
+          set: { cancellation: { by: 'rider', reason: 'Booking restarted' } }
+        });
+      }
+      return draft?.scheduledFor ? askTime(chat) : askPhone(chat, rider.name ?? 'there');
+    case 'ask_location':
+    case 'ask_pickup':
+      await draft?.updateOne({ $unset: { dropoff: 1, dropoffLocation: 1 } });
+      return askDropoff(chat, rider);
+    case 'confirm_fare':
+      await draft?.updateOne({ $unset: { pickup: 1, fare: 1 } });
+      return draft?.scheduledFor ? askPickup(chat, rider) : askLocation(chat);
+    case 'edit_name':
+    case 'edit_phone':
+    case 'place_home':
+    case 'place_work':
+      await rideSession.delete(chat);
+      return showProfile(chat, rider);
+    default:
+      return riderBot.sendMessage(chat, '↩️ Nothing to go back to. Send /cancel to stop booking.');
+  }
 });
 
 /*─────────────────────────────────────────────────────────────────────*/
-/* 5 ▸ Collect name → contact → drop‑off → live‑location → payment     */
+/* 5 ▸ Collect name → phone → drop‑off → location → fare estimate      */
 /*─────────────────────────────────────────────────────────────────────*/
-riderBot.on('message', async msg => {
+riderBot.on('message', async (msg: Message) => {
   const chat = String(msg.chat.id);
-  const step = rideSession.get(chat);
-  if (!step) return;
-  if (!msg.text && !msg.location) return;
+  if (msg.text?.startsWith('/') || (!msg.text && !msg.location && !msg.contact)) return;
+  const step = (await rideSession.get(chat)) ?? await resumeRide(chat);
+  if (!step) {
+    if (msg.text) await relayToDriver(chat, msg.text);
+    return;
+  }
 
   switch (step) {
     case 'ask_name':
-      await TripRequest.create({ riderChatId: chat, riderName: msg.text!.trim(), status: 'pending' });
-      rideSession.set(chat, 'ask_cname');
-      return riderBot.sendMessage(
-        chat,
-        `📞 Thanks, *${msg.text!.trim()}*! Now send your *contact number*:`,
-        { parse_mode: 'Markdown', reply_markup: { remove_keyboard: true } }
+    case 'edit_name': {
+      const name = msg.text?.trim() ?? '';
+      if (name.length < 2 || name.length > 50) {
+        return riderBot.sendMessage(chat, '❌ Please send your name (2–50 characters).');
+      }
+      const rider = await Rider.findOneAndUpdate({ chatId: chat }, { name }, { new: true });
+      if (step === 'edit_name') return showProfile(chat, rider!, '✅ Name updated.');
+      return continueBooking(chat, rider!);
+    }
+
+    case 'ask_phone':
+    case 'edit_phone': {
+      if (!msg.contact) {
+        return riderBot.sendMessage(chat, '📱 Please tap “Share my number” below.', { reply_markup: contactKeyboard });
+      }
+      const phone = sharedPhone(msg);
+      if (!phone) {
+        return riderBot.sendMessage(chat, '❌ Please share your own, valid mobile number.', { reply_markup: contactKeyboard });
+      }
+      const rider = await Rider.findOneAndUpdate(
+        { chatId: chat }, { phone, phoneVerifiedAt: new Date() }, { new: true }
       );
+      if (step === 'edit_phone') return showProfile(chat, rider!, '✅ Number updated.');
+      return continueBooking(chat, rider!);
+    }
 
-    case 'ask_cname':
-      await TripRequest.findOneAndUpdate(
-        { riderChatId: chat, status: 'pending', riderCName: { $exists: false } },
-        { riderCName: msg.text!.trim() }
+    case 'place_home':
+    case 'place_work': {
+      const key: PlaceKey = step === 'place_home' ? 'home' : 'work';
+      const place = await resolvePlace(msg);
+      if (!place) {
+        return riderBot.sendMessage(chat,
+          '❌ I couldn’t find that place. Try a more specific address or send a 📎 location pin.');
+      }
+      const rider = await Rider.findOneAndUpdate(
+        { chatId: chat },
+        { [`places.${key}`]: { address: place.label, lat: place.lat, lon: place.lon } },
+        { new: true }
       );
-      rideSession.set(chat, 'ask_dropoff');
-      return riderBot.sendMessage(chat, '🏁 Where would you like to go?', { parse_mode: 'Markdown' });
+      return showProfile(chat, rider!, `✅ ${PLACE_LABELS[key]} saved.`);
+    }
 
-    case 'ask_dropoff':
-      await TripRequest.findOneAndUpdate(
+    case 'ask_time': {
+      const at = parsePickupTime(msg.text ?? '');
+      if (!at) {
+        return riderBot.sendMessage(chat,
+          '❌ Please send the pickup time as YYYY-MM-DD HH:MM, “today HH:MM” or “tomorrow HH:MM”.');
+      }
+      const problem = pickupTimeProblem(at);
+      if (problem) {
+        return riderBot.sendMessage(chat, problem === 'too_soon'
+          ? `⏱ Please pick a time at least ${MIN_AHEAD_MIN} minutes from now, or send /ride for a ride now.`
+          : `🗓 Rides can be booked up to ${MAX_AHEAD_DAYS} days ahead.`);
+      }
+      const rider = (await Rider.findOne({ chatId: chat }))!;
+      await TripRequest.create({
+        riderChatId: chat, riderName: rider.name, riderCName: rider.phone, status: 'pending',
+        scheduledFor: at
+      });
+      return askDropoff(chat, rider);
+    }
+
+    case 'ask_dropoff': {
+      const rider = await Rider.findOne({ chatId: chat });
+      const dropoff = await resolvePlace(msg, rider ?? undefined);
+      if (!dropoff) {
+        return riderBot.sendMessage(chat,
+          '❌ I couldn’t find that place. Try a more specific address or send a 📎 location pin.');
+      }
+
+      const trip = await TripRequest.findOneAndUpdate(
         { riderChatId: chat, status: 'pending', dropoff: { $exists: false } },
-        { dropoff: msg.text!.trim() }
-      );
-      rideSession.set(chat, 'ask_location');
-      return riderBot.sendMessage(
-        chat,
-        '📍 Please *share your live location* so drivers can find you:',
-        {
-          parse_mode: 'Markdown',
-          reply_markup: {
-            keyboard: [[{ text: 'Send location 📍', request_location: true }]],
-            one_time_keyboard: true,
-            resize_keyboard: true
-          }
-        }
+        { dropoff: dropoff.label, dropoffLocation: { lat: dropoff.lat, lon: dropoff.lon } },
+        { new: true }
       );
+      return trip?.scheduledFor && rider ? askPickup(chat, rider) : askLocation(chat);
+    }
 
-    case 'ask_location':
+    case 'ask_location': {
       if (!msg.location) {
         return riderBot.sendMessage(chat, '❌ Tap “Send location 📍”');
       }
@@ -116,89 +512,351 @@ riderBot.on('message', async msg => {
         },
         { pickup: { lat, lon } },
         { new: true }
-      ) as TripRequestDocument;
+      );
+      return quoteFare(chat, trip);
+    }
 
-      rideSession.set(chat, 'ask_payment');
-      return riderBot.sendMessage(
-        chat,
-        '💳 To proceed with your booking, please make the payment using the link below.',
-        { parse_mode: 'Markdown' }
+    case 'ask_pickup': {
+      const pickup = await resolvePlace(msg, await Rider.findOne({ chatId: chat }) ?? undefined);
+      if (!pickup) {
+        return riderBot.sendMessage(chat,
+          '❌ I couldn’t find that place. Try a more specific address or send a 📎 location pin.');
+      }
+      const trip = await TripRequest.findOneAndUpdate(
+        {
+          riderChatId: chat, status: 'pending', scheduledFor: { $exists: true },
+          dropoff: { $exists: true }, 'pickup.lat': { $exists: false }
+        },
+        { pickup: { lat: pickup.lat, lon: pickup.lon } },
+        { new: true }
       );
+      return quoteFare(chat, trip);
+    }
 
-    case 'ask_payment':
-      // Trigger a mock payment link or actual payment process
-      const amountToPay = 100; // Example: 100 ZAR for the service
-      try {
-        // Call the backend endpoint to generate the payment link
-        const response = await fetch(`${process.env.BACKEND_URL}/generate-payment-link`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ chatId: chat, amount: amountToPay })
-        });
+    case 'confirm_fare':
+      return riderBot.sendMessage(chat, '👆 Please pick a ride class on the estimate above, or tap ❌ Cancel ride.');
 
-        const data = await response.json();
+    case 'rate_comment': {
+      if (!msg.text) return;
+      const trip = await awaitingComment('rider', chat);
+      if (trip) await addComment(trip, 'rider', msg.text);
+      await rideSession.delete(chat);
+      return riderBot.sendMessage(chat, '🙏 Thanks for the feedback!');
+    }
 
-        if (data.error) {
-          return riderBot.sendMessage(chat, `❌ Error: ${data.error}`);
-        }
+    // Additional steps could go here...
 
-        // Payment link sent to user
-        return riderBot.sendMessage(chat, `💳 Please follow this link to complete your payment: ${data.paymentUrl}`);
-      } catch (error) {
-        console.error(error);
-        return riderBot.sendMessage(chat, '❌ An error occurred while processing your payment request.');
-      }
+  }
+});
 
-    // Additional steps could go here...
+/*─────────────────────────────────────────────────────────────────────*/
+/* 6 ▸ Fare confirmation (fare:ok:<tripId>:<class>) → dispatch         */
+/*─────────────────────────────────────────────────────────────────────*/
+riderBot.on('callback_query', async (cq: CallbackQuery) => {
+  const [prefix, action, tripId, picked] = (cq.data ?? '').split(':');
+  if (prefix !== 'fare' || action !== 'ok' || !cq.message) return;
+  const chat = String(cq.from.id);
+  const vehicleClass = isVehicleClass(picked) ? picked : DEFAULT_VEHICLE_CLASS;
+
+  const open = {
+    _id: tripId, riderChatId: chat, status: 'pending',
+    'fare.estimate': { $exists: true }, 'fare.confirmedAt': { $exists: false }
+  };
+  const draft = await TripRequest.findOne(open).catch(() => null);
+  // re‑priced in the chosen class so the stored fare is the one shown on the button
+  const trip = draft && await TripRequest.findOneAndUpdate(
+    open,
+    {
+      vehicleClass,
+      fare: { ...fareFields(quoteFor(draft, vehicleClass)), confirmedAt: new Date() }
+    },
+    { new: true }
+  );
+  if (!trip) {
+    return riderBot.answerCallbackQuery(cq.id, {
+      text: '⚠️ This estimate is no longer valid.', show_alert: true
+    });
+  }
 
+  await riderBot.answerCallbackQuery(cq.id, { text: '✅ Confirmed' });
+  await riderBot.editMessageReplyMarkup({ inline_keyboard: [] }, {
+    chat_id: cq.message.chat.id, message_id: cq.message.message_id
+  }).catch(() => undefined);
+
+  await rideSession.delete(chat);
+  if (trip.scheduledFor) {
+    const booked = await TripRequest.transition(trip._id, 'scheduled') ?? trip;
+    await riderBot.sendMessage(chat,
+      `🗓 <b>Ride booked</b> for ${formatPickup(trip.scheduledFor)}.\n` +
+      `We’ll remind you beforehand and start looking for a driver ${DISPATCH_LEAD_MIN} minutes before pickup.\n` +
+      'See /bookings to view or cancel it.',
+      { parse_mode: 'HTML', reply_markup: { inline_keyboard: riderActions(booked) } }
+    );
+    return sendPaymentOptions(chat, booked);
   }
+
+  await riderBot.sendMessage(chat, '🔎 Looking for a driver near you…', {
+    reply_markup: { inline_keyboard: riderActions(trip) }
+  });
+  dispatchTrip(trip.id).catch(err => console.error('dispatch failed:', err));
+  return sendPaymentOptions(chat, trip);
 });
 
 /*─────────────────────────────────────────────────────────────────────*/
-/* 6 ▸ Handle callback for accepting the ride request                    */
+/* 7 ▸ Payment — online link or cash (pay:cash:<tripId>), /pay         */
 /*─────────────────────────────────────────────────────────────────────*/
-riderBot.on('callback_query', async cq => {
-  if (!cq.data?.startsWith('accept:')) return;
-  const [, tripId] = cq.data.split(':');
-  const driverChat = String(cq.from.id);
+const sendPaymentOptions = (chat: string, trip: TripRequestDocument) =>
+  riderBot.sendMessage(
+    chat,
+    '💳 How would you like to pay? You can pay online now, or pay your driver in cash.',
+    {
+      reply_markup: {
+        inline_keyboard: [
+          [{ text: '💳 Pay online', url: paymentLinkFor(trip.id) }],
+          [{ text: '💵 I’ll pay cash', callback_data: `pay:cash:${trip.id}` }]
+        ]
+      }
+    }
+  );
 
-  const trip = await TripRequest.findByIdAndUpdate(tripId, {
-    status: 'accepted', driverChatId: driverChat
-  }) as TripRequestDocument;
+riderBot.on('callback_query', async (cq: CallbackQuery) => {
+  const [prefix, method, tripId] = (cq.data ?? '').split(':');
+  if (prefix !== 'pay' || method !== 'cash' || !cq.message) return;
 
-  if (!trip) {
-    return riderBot.answerCallbackQuery(cq.id, { text: '❌ Trip not found' });
+  const trip = await chooseCash(tripId, String(cq.from.id));
+
+  await riderBot.answerCallbackQuery(cq.id, {
+    text: trip ? '💵 Cash it is — pay your driver at the end of the trip.' : '⚠️ Nothing to pay for this trip.'
+  });
+  return riderBot.editMessageReplyMarkup({ inline_keyboard: [] }, {
+    chat_id: cq.message.chat.id, message_id: cq.message.message_id
+  }).catch(() => undefined);
+});
+
+riderBot.onText(/^\/pay$/, async (msg: Message) => {
+  const chat = String(msg.chat.id);
+  const trip = await TripRequest.findOne({
+    riderChatId: chat,
+    status: { $ne: 'cancelled' },
+    'fare.confirmedAt': { $exists: true },
+    'payment.status': 'unpaid'
+  }).sort({ createdAt: -1 });
+
+  if (!trip) return riderBot.sendMessage(chat, '✅ You have nothing to pay right now.');
+  return sendPaymentOptions(chat, trip);
+});
+
+/*─────────────────────────────────────────────────────────────────────*/
+/* 8 ▸ Rider cancellation (ride:cancel:<tripId>[:<reason>])            */
+/*─────────────────────────────────────────────────────────────────────*/
+riderBot.on('callback_query', async (cq: CallbackQuery) => {
+  const [prefix, action, tripId, code] = (cq.data ?? '').split(':');
+  if (prefix !== 'ride' || action !== 'cancel' || !cq.message) return;
+  const chat = String(cq.from.id);
+  const where = { chat_id: cq.message.chat.id, message_id: cq.message.message_id };
+
+  if (!code) {
+    await riderBot.answerCallbackQuery(cq.id);
+    return riderBot.editMessageReplyMarkup(
+      { inline_keyboard: cancelReasonKeyboard(tripId, 'rider') }, where
+    ).catch(() => undefined);
+  }
+
+  const reason = cancelReasonLabel('rider', code);
+  const trip = reason && await cancelTrip(tripId, 'rider', reason, chat);
+  await riderBot.answerCallbackQuery(cq.id, trip ? {} : {
+    text: '⚠️ This ride can no longer be cancelled.', show_alert: true
+  });
+  if (trip) await rideSession.delete(chat);
+  return riderBot.editMessageReplyMarkup({ inline_keyboard: [] }, where).catch(() => undefined);
+});
+
+/*─────────────────────────────────────────────────────────────────────*/
+/* 9 ▸ Rate the driver (rate:<tripId>:<1‑5|skip>)                      */
+/*─────────────────────────────────────────────────────────────────────*/
+riderBot.on('callback_query', async (cq: CallbackQuery) => {
+  const [prefix, tripId, value] = (cq.data ?? '').split(':');
+  if (prefix !== 'rate' || !cq.message) return;
+  const chat = String(cq.from.id);
+  const clearKeyboard = () => riderBot.editMessageReplyMarkup({ inline_keyboard: [] }, {
+    chat_id: cq.message!.chat.id, message_id: cq.message!.message_id
+  }).catch(() => undefined);
+
+  if (value === 'skip') {
+    await rideSession.delete(chat);
+    await riderBot.answerCallbackQuery(cq.id);
+    return clearKeyboard();
   }
 
-  await riderBot.answerCallbackQuery(cq.id, { text: '✅ You accepted!' });
-  await riderBot.sendMessage(driverChat, `👍 Heading to pick up *${trip.riderName}*!`, { parse_mode: 'Markdown' });
+  const trip = await rateTrip(tripId, 'rider', chat, Number(value));
+  await riderBot.answerCallbackQuery(cq.id, trip
+    ? { text: '🙏 Thanks for rating your driver!' }
+    : { text: '⚠️ This trip can’t be rated (again).', show_alert: true });
+  await clearKeyboard();
+  if (!trip) return;
 
-  const driver = await Driver.findByChatId(driverChat);
-  const info = driver ? `👤 ${driver.fullName}\n📞 ${driver.phone}` : '👤 Details unavailable';
-  await riderBot.sendMessage(trip.riderChatId, `🚗 *Driver is coming!*\n${info}`, { parse_mode: 'Markdown' });
+  await rideSession.set(chat, 'rate_comment');
+  return riderBot.sendMessage(chat, '💬 Anything to add? Send a short comment, or tap Skip.', {
+    reply_markup: { inline_keyboard: commentKeyboard(trip.id) }
+  });
 });
 
 /*─────────────────────────────────────────────────────────────────────*/
-/* 7 ▸ Relay live‑location updates                                     */
+/* 10 ▸ Pass the rider's location to the driver (driver bot)            */
 /*─────────────────────────────────────────────────────────────────────*/
-riderBot.on('message', async m => {
+riderBot.on('message', async (m: Message) => {
   if (!m.location) return;
-  const riderChat = String(m.chat.id);
-  const trip = await TripRequest.findOne({ riderChatId: riderChat, status: 'accepted' }) as TripRequestDocument;
-  if (!trip?.driverChatId) return;
-
-  await riderBot.sendLocation(
-    trip.driverChatId,
-    m.location.latitude,
-    m.location.longitude,
-    m.location.live_period ? { live_period: m.location.live_period } : {}
-  );
+  const chat = String(m.chat.id);
+  const trip = await relayRiderLocation(chat, { lat: m.location.latitude, lon: m.location.longitude })
+    .catch(err => console.error('[rider] location relay failed:', err));
+  if (trip) await riderBot.sendMessage(chat, '📍 Location sent to your driver.');
+});
+
+/*─────────────────────────────────────────────────────────────────────*/
+/* 11 ▸ Trip chat — masked text relay to the driver                     */
+/*─────────────────────────────────────────────────────────────────────*/
+const relayFailure = {
+  no_trip: undefined,
+  too_long: `❌ Messages to your driver are limited to ${MAX_RELAY_LENGTH} characters.`,
+  undelivered: '⚠️ Your message could not be delivered. Please try again.'
+};
+
+async function relayToDriver(chat: string, text: string) {
+  const result = await relayMessage('rider', chat, text);
+  const reply = result.ok ? undefined : relayFailure[result.reason];
+  if (reply) await riderBot.sendMessage(chat, reply);
+}
+
+/*─────────────────────────────────────────────────────────────────────*/
+/* 12 ▸ /profile — name, verified number, saved places (profile:*)     */
+/*─────────────────────────────────────────────────────────────────────*/
+function showProfile(chat: string, rider: RiderDocument, heading?: string) {
+  const place = (k: PlaceKey) => rider.places?.[k];
+  const text =
+    (heading ? `${heading}\n\n` : '') +
+    '👤 <b>Your profile</b>\n' +
+    `Name: ${escapeHtml(rider.name ?? '—')}\n` +
+    `Phone: ${escapeHtml(rider.phone ?? '—')}${rider.phoneVerifiedAt ? ' ✅' : ''}\n` +
+    PLACE_KEYS.map(k => `${PLACE_LABELS[k]}: ${escapeHtml(place(k)?.address ?? '—')}`).join('\n');
+
+  return riderBot.sendMessage(chat, text, {
+    parse_mode: 'HTML',
+    reply_markup: {
+      inline_keyboard: [
+        [{ text: '✏️ Name', callback_data: 'profile:name' }, { text: '📱 Phone', callback_data: 'profile:phone' }],
+        PLACE_KEYS.map(k => ({ text: `${PLACE_LABELS[k]} — set`, callback_data: `profile:place:${k}` })),
+        PLACE_KEYS.filter(place).map(k => ({ text: `🗑 ${PLACE_LABELS[k]}`, callback_data: `profile:clear:${k}` }))
+      ].filter(row => row.length)
+    }
+  });
+}
+
+riderBot.onText(/^\/profile$/, async (msg: Message) => {
+  const chat = String(msg.chat.id);
+  return showProfile(chat, await Rider.findOrCreate(chat, msg.from?.username));
+});
+
+riderBot.on('callback_query', async (cq: CallbackQuery) => {
+  const [prefix, action, key] = (cq.data ?? '').split(':');
+  if (prefix !== 'profile' || !cq.message) return;
+  const chat = String(cq.from.id);
+  await riderBot.answerCallbackQuery(cq.id);
+
+  switch (action) {
+    case 'name':
+      await rideSession.set(chat, 'edit_name');
+      return riderBot.sendMessage(chat, '✏️ Send the name drivers should see.');
+    case 'phone':
+      await rideSession.set(chat, 'edit_phone');
+      return riderBot.sendMessage(chat, '📱 Share your number with the button below.', { reply_markup: contactKeyboard });
+    case 'place':
+      if (!isPlaceKey(key)) return;
+      await rideSession.set(chat, key === 'home' ? 'place_home' : 'place_work');
+      return riderBot.sendMessage(chat, `${PLACE_LABELS[key]}: type the address or send a 📎 location pin.`);
+    case 'clear': {
+      if (!isPlaceKey(key)) return;
+      const rider = await Rider.findOneAndUpdate(
+        { chatId: chat }, { $unset: { [`places.${key}`]: 1 } }, { new: true }
+      );
+      return rider && showProfile(chat, rider, `🗑 ${PLACE_LABELS[key]} removed.`);
+    }
+  }
+});
+
+/*─────────────────────────────────────────────────────────────────────*/
+/* 13 ▸ Personal data — /mydata, /deleteme (erase:confirm|cancel)      */
+/*─────────────────────────────────────────────────────────────────────*/
+const eraseFailure = {
+  not_found: '❌ We don’t hold any data for this chat.',
+  active_trip: '🚗 Please finish or cancel your current and booked rides first (/bookings).',
+  open_balance: '⚠️ Please contact support to delete your data.',
+  storage_failed: '⚠️ Something went wrong. Please try again later.'
+};
+
+riderBot.onText(/^\/mydata$/, async (msg: Message) => {
+  const chat = String(msg.chat.id);
+  const data = await riderExport(chat);
+  if (!data) return riderBot.sendMessage(chat, eraseFailure.not_found);
+
+  const { buffer, filename } = exportFile('rider', data);
+  await riderBot.sendMessage(chat, '📦 Here is everything we hold about you.');
+  return riderBot.sendDocument(chat, buffer, {}, { filename, contentType: 'application/json' });
+});
+
+riderBot.onText(/^\/deleteme$/, (msg: Message) =>
+  riderBot.sendMessage(msg.chat.id,
+    '⚠️ <b>Delete my data</b>\n' +
+    'This deletes your profile, saved places and trip chats, and removes your name and addresses from past trips. ' +
+    'It can’t be undone. Fares and payments are kept, without your details, for accounting.\n\n' +
+    'Send /mydata first if you want a copy.',
+    {
+      parse_mode: 'HTML',
+      reply_markup: {
+        inline_keyboard: [
+          [{ text: '🗑 Delete everything', callback_data: 'erase:confirm' }],
+          [{ text: '↩️ Keep my data', callback_data: 'erase:cancel' }]
+        ]
+      }
+    }
+  )
+);
+
+riderBot.on('callback_query', async (cq: CallbackQuery) => {
+  const [prefix, action] = (cq.data ?? '').split(':');
+  if (prefix !== 'erase' || !cq.message) return;
+  const chat = String(cq.from.id);
+
+  await riderBot.editMessageReplyMarkup({ inline_keyboard: [] }, {
+    chat_id: cq.message.chat.id, message_id: cq.message.message_id
+  }).catch(() => undefined);
+  if (action !== 'confirm') return riderBot.answerCallbackQuery(cq.id, { text: '👍 Nothing was deleted.' });
+
+  const result = await eraseRider(chat);
+  if (!result.ok) {
+    return riderBot.answerCallbackQuery(cq.id, { text: eraseFailure[result.reason], show_alert: true });
+  }
+
+  await rideSession.delete(chat);
+  await riderBot.answerCallbackQuery(cq.id);
+  return riderBot.sendMessage(chat, '✅ Your data has been deleted. Send /ride whenever you need a trip again.', {
+    reply_markup: { remove_keyboard: true }
+  });
 });
 
 /*─────────────────────────────────────────────────────────────────────*/
-/* 8 ▸ Named export for server.ts                                      */
+/* 14 ▸ Named export for server.ts                                     */
 /*─────────────────────────────────────────────────────────────────────*/
 export const RiderPort = {
   processUpdate: (u: Update) => riderBot.processUpdate(u),
-  setWebHook: (url: string) => riderBot.setWebHook(url)
+  setWebHook: (url: string) => riderBot.setWebHook(url),
+  sendMessage: (chatId: string, text: string, opts: object = {}) =>
+    riderBot.sendMessage(chatId, text, opts),
+  editMessageText: (chatId: string, messageId: number, text: string, opts: object = {}) =>
+    riderBot.editMessageText(text, { chat_id: chatId, message_id: messageId, ...opts }),
+  sendLocation: (chatId: string, lat: number, lon: number, opts: object = {}) =>
+    riderBot.sendLocation(chatId, lat, lon, opts),
+  editMessageLiveLocation: (chatId: string, messageId: number, lat: number, lon: number) =>
+    riderBot.editMessageLiveLocation(lat, lon, { chat_id: chatId, message_id: messageId }),
+  stopMessageLiveLocation: (chatId: string, messageId: number) =>
+    riderBot.stopMessageLiveLocation({ chat_id: chatId, message_id: messageId })
 };
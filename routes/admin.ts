@@ -0,0 +1,208 @@
+/**********************************************************************
+ * routes/admin.ts  – Admin REST API (driver review)
+ * --------------------------------------------------------------------
+ *  All routes require `Authorization: Bearer <ADMIN_API_KEY>`.
+ *
+ *  GET  /admin/drivers                  ?status&registrationStep&documentsComplete&flagged&page&limit
+ *  GET  /admin/drivers/stats            counts per status
+ *  GET  /admin/drivers/:id
+ *  GET  /admin/drivers/:id/documents        each with a short‑lived `viewUrl`
+ *  POST /admin/drivers/:id/documents/:key/verify
+ *  POST /admin/drivers/:id/documents/:key/reject   { reason }
+ *  PATCH /admin/drivers/:id/documents/:key         { expiresAt }  (ISO date or null)
+ *  POST /admin/drivers/:id/approve | suspend | reject   { reason? }
+ *  DELETE /admin/drivers/:id/flag       clear a low‑rating review flag
+ *  GET  /admin/drivers/:id/wallet       balance and latest statements
+ *  POST /admin/drivers/:id/payouts      { amount, reference, note? }
+ *  GET  /admin/drivers/:id/vehicles     registered vehicles (active one flagged)
+ *  GET  /admin/vehicles                 ?status&vehicleClass
+ *  POST /admin/vehicles/:id/approve | reject   { reason }  (reason required to reject)
+ *  GET  /admin/trips/:id/messages       relayed rider ⇄ driver chat
+ *********************************************************************/
+
+import { Request, Response, Router } from 'express';
+import mongoose from 'mongoose';
+import { Driver, EXPIRING_DOC_KEYS, isDocKey } from '../models/Driver.js';
+import { requireAdmin } from '../middleware/adminAuth.js';
+import { asyncHandler } from '../utils/asyncHandler.js';
+import {
+  clearReviewFlag, documentList, driverView, listDrivers, reviewDocument, setDocumentExpiry,
+  setDriverStatus
+} from '../controllers/adminController.js';
+import { tripMessages } from '../controllers/relayController.js';
+import { latestStatements, recordPayout, walletBalance } from '../controllers/walletController.js';
+import { TripRequest } from '../models/TripRequest.js';
+import { Vehicle } from '../models/Vehicle.js';
+import { isActiveVehicle, reviewVehicle, vehicleView, vehiclesOf } from '../controllers/vehicleController.js';
+
+export const adminRouter = Router();
+adminRouter.use(requireAdmin);
+
+/** Load :id or answer 404. */
+async function loadDriver(req: Request, res: Response) {
+  const d = mongoose.isValidObjectId(req.params.id) ? await Driver.findById(req.params.id) : null;
+  if (!d) res.status(404).json({ error: 'Driver not found' });
+  return d;
+}
+
+const reasonOf = (req: Request) =>
+  typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+
+/* ------------------------------------------------------------------ */
+/* Listing                                                            */
+/* ------------------------------------------------------------------ */
+adminRouter.get('/drivers', asyncHandler(async (req, res) => {
+  const { status, registrationStep, documentsComplete, flagged } = req.query;
+  const page = Math.max(1, Number(req.query.page) || 1);
+  const limit = Math.min(200, Math.max(1, Number(req.query.limit) || 50));
+
+  res.json(await listDrivers({
+    status: typeof status === 'string' ? status : undefined,
+    registrationStep: typeof registrationStep === 'string' ? registrationStep : undefined,
+    documentsComplete: documentsComplete === undefined ? undefined : documentsComplete === 'true',
+    flagged: flagged === undefined ? undefined : flagged === 'true'
+  }, page, limit));
+}));
+
+adminRouter.get('/drivers/stats', asyncHandler(async (_req, res) => {
+  res.json(await Driver.getStatusCounts());
+}));
+
+adminRouter.get('/drivers/:id', asyncHandler(async (req, res) => {
+  const d = await loadDriver(req, res);
+  if (d) res.json(driverView(d));
+}));
+
+/* ------------------------------------------------------------------ */
+/* Documents                                                          */
+/* ------------------------------------------------------------------ */
+adminRouter.get('/drivers/:id/documents', asyncHandler(async (req, res) => {
+  const d = await loadDriver(req, res);
+  if (d) res.json(await documentList(d));
+}));
+
+adminRouter.post('/drivers/:id/documents/:key/:verdict(verify|reject)', asyncHandler(async (req, res) => {
+  const { key, verdict } = req.params;
+  if (!isDocKey(key)) return res.status(400).json({ error: `Unknown document ${key}` });
+
+  const reason = reasonOf(req);
+  if (verdict === 'reject' && !reason) return res.status(400).json({ error: 'reason required' });
+
+  const d = await loadDriver(req, res);
+  if (!d) return;
+
+  const updated = await reviewDocument(d, key,
+    verdict === 'verify' ? { verified: true } : { verified: false, reason });
+  if (!updated) return res.status(409).json({ error: `${key} has not been uploaded` });
+  res.json((await documentList(updated)).find(doc => doc.key === key));
+}));
+
+adminRouter.patch('/drivers/:id/documents/:key', asyncHandler(async (req, res) => {
+  const { key } = req.params;
+  if (!isDocKey(key)) return res.status(400).json({ error: `Unknown document ${key}` });
+  if (!EXPIRING_DOC_KEYS.includes(key)) return res.status(400).json({ error: `${key} does not expire` });
+
+  const raw = req.body?.expiresAt;
+  const expiresAt = raw === null ? null : new Date(typeof raw === 'string' ? raw : NaN);
+  if (expiresAt && isNaN(expiresAt.getTime())) {
+    return res.status(400).json({ error: 'expiresAt must be an ISO date or null' });
+  }
+
+  const d = await loadDriver(req, res);
+  if (!d) return;
+
+  const updated = await setDocumentExpiry(d, key, expiresAt);
+  if (!updated) return res.status(409).json({ error: `${key} has not been uploaded` });
+  res.json((await documentList(updated)).find(doc => doc.key === key));
+}));
+
+/* ------------------------------------------------------------------ */
+/* Account status                                                     */
+/* ------------------------------------------------------------------ */
+adminRouter.post('/drivers/:id/approve', asyncHandler(async (req, res) => {
+  const d = await loadDriver(req, res);
+  if (!d) return;
+  if (!d.documentsComplete) return res.status(409).json({ error: 'Documents incomplete' });
+  res.json(driverView(await setDriverStatus(d, 'approved')));
+}));
+
+adminRouter.post('/drivers/:id/:action(suspend|reject)', asyncHandler(async (req, res) => {
+  const reason = reasonOf(req);
+  if (!reason) return res.status(400).json({ error: 'reason required' });
+
+  const d = await loadDriver(req, res);
+  if (!d) return;
+  const status = req.params.action === 'suspend' ? 'suspended' : 'rejected';
+  res.json(driverView(await setDriverStatus(d, status, reason)));
+}));
+
+adminRouter.delete('/drivers/:id/flag', asyncHandler(async (req, res) => {
+  const d = await loadDriver(req, res);
+  if (d) res.json(driverView(await clearReviewFlag(d)));
+}));
+
+/* ------------------------------------------------------------------ */
+/* Wallet                                                             */
+/* ------------------------------------------------------------------ */
+adminRouter.get('/drivers/:id/wallet', asyncHandler(async (req, res) => {
+  const d = await loadDriver(req, res);
+  if (!d) return;
+  const [balance, statements] = await Promise.all([walletBalance(d.chatId), latestStatements(d.chatId)]);
+  res.json({ balance, statements });
+}));
+
+adminRouter.post('/drivers/:id/payouts', asyncHandler(async (req, res) => {
+  const amount = Number(req.body?.amount);
+  const reference = typeof req.body?.reference === 'string' ? req.body.reference.trim() : '';
+  if (!(amount > 0)) return res.status(400).json({ error: 'amount must be a positive number' });
+  if (!reference) return res.status(400).json({ error: 'reference required' });
+
+  const d = await loadDriver(req, res);
+  if (!d) return;
+  const note = typeof req.body?.note === 'string' ? req.body.note : undefined;
+  const entry = await recordPayout(d.chatId, amount, reference, note);
+  res.status(201).json({ entry, balance: await walletBalance(d.chatId) });
+}));
+
+/* ------------------------------------------------------------------ */
+/* Vehicles                                                           */
+/* ------------------------------------------------------------------ */
+adminRouter.get('/drivers/:id/vehicles', asyncHandler(async (req, res) => {
+  const d = await loadDriver(req, res);
+  if (!d) return;
+  const vehicles = await vehiclesOf(d.chatId);
+  res.json(await Promise.all(vehicles.map(async v => ({ ...(await vehicleView(v)), active: isActiveVehicle(d, v) }))));
+}));
+
+adminRouter.get('/vehicles', asyncHandler(async (req, res) => {
+  const { status, vehicleClass } = req.query;
+  const q: Record<string, unknown> = { setupStep: 'completed' };
+  if (typeof status === 'string') q.status = status;
+  if (typeof vehicleClass === 'string') q.vehicleClass = vehicleClass;
+  const vehicles = await Vehicle.find(q).sort({ createdAt: -1 }).limit(200);
+  res.json(await Promise.all(vehicles.map(vehicleView)));
+}));
+
+adminRouter.post('/vehicles/:id/:verdict(approve|reject)', asyncHandler(async (req, res) => {
+  const reason = reasonOf(req);
+  if (req.params.verdict === 'reject' && !reason) return res.status(400).json({ error: 'reason required' });
+
+  const v = mongoose.isValidObjectId(req.params.id) ? await Vehicle.findById(req.params.id) : null;
+  if (!v) return res.status(404).json({ error: 'Vehicle not found' });
+  if (v.setupStep !== 'completed') return res.status(409).json({ error: 'Vehicle set‑up not finished' });
+  if (req.params.verdict === 'approve' && !v.documentsComplete) {
+    return res.status(409).json({ error: 'Documents incomplete' });
+  }
+
+  const status = req.params.verdict === 'approve' ? 'approved' : 'rejected';
+  res.json(await vehicleView(await reviewVehicle(v, status, reason || undefined)));
+}));
+
+/* ------------------------------------------------------------------ */
+/* Trips                                                              */
+/* ------------------------------------------------------------------ */
+adminRouter.get('/trips/:id/messages', asyncHandler(async (req, res) => {
+  const trip = mongoose.isValidObjectId(req.params.id) ? await TripRequest.findById(req.params.id) : null;
+  if (!trip) return res.status(404).json({ error: 'Trip not found' });
+  res.json({ trip: trip.id, messages: await tripMessages(trip._id) });
+}));
@@ -0,0 +1,98 @@
+/**********************************************************************
+ * routes/driver.ts  – Driver dashboard (PIN login + protected pages)
+ * --------------------------------------------------------------------
+ *  • GET  /driver/login?chat=…     PIN form (link sent by the bot)
+ *  • POST /driver/login            { chat, pin } → vr_session cookie
+ *  • POST /driver/logout
+ *  • GET  /driver/dashboard?page=  profile, trips & earnings (vr_session)
+ *  • GET  /driver/statements/:id.csv   weekly wallet statement (vr_session)
+ *********************************************************************/
+
+import { Router } from 'express';
+import mongoose from 'mongoose';
+import { signDashLink } from '../jwt.js';
+import { verifyPin } from '../controllers/authController.js';
+import { dashboardFor } from '../controllers/dashboardController.js';
+import { statementCsv, statementFilename, statementPeriod } from '../controllers/walletController.js';
+import { PayoutStatement } from '../models/PayoutStatement.js';
+import { requireDriver, SESSION_COOKIE } from '../middleware/driverAuth.js';
+import { asyncHandler } from '../utils/asyncHandler.js';
+import { formatZar } from '../utils/fare.js';
+
+export const driverRouter = Router();
+
+const timeOf = (d: Date) =>
+  d.toLocaleTimeString('en-ZA', { timeZone: 'Africa/Johannesburg', timeStyle: 'short' });
+
+const when = (d?: Date) =>
+  d ? d.toLocaleString('en-ZA', { timeZone: 'Africa/Johannesburg', dateStyle: 'medium', timeStyle: 'short' }) : '—';
+
+/* ------------------------------------------------------------------ */
+/* GET  /driver/login                                                 */
+/* ------------------------------------------------------------------ */
+driverRouter.get('/login', (req, res) => {
+  const chat = typeof req.query.chat === 'string' ? req.query.chat : '';
+  res.render('driver-login', { chat, error: null });
+});
+
+/* ------------------------------------------------------------------ */
+/* POST /driver/login                                                 */
+/* ------------------------------------------------------------------ */
+driverRouter.post('/login', asyncHandler(async (req, res) => {
+  const chat = typeof req.body.chat === 'string' ? req.body.chat : '';
+  const pin = typeof req.body.pin === 'string' ? req.body.pin.trim() : '';
+  if (!chat) {
+    return res.status(400).render('driver-login', { chat, error: 'Open the dashboard link from the driver bot.' });
+  }
+
+  const check = await verifyPin(chat, pin);
+  if (!check.ok) {
+    const [status, error] =
+      check.reason === 'locked'  ? [423, `Too many wrong attempts. Try again after ${timeOf(check.lockedUntil)}.`] :
+      check.reason === 'expired' ? [401, 'Your PIN has expired. Send /newpin in the driver bot.'] :
+      check.reason === 'no_pin'  ? [401, 'You have not set a PIN yet. Send /newpin in the driver bot.'] :
+      check.reason === 'wrong'   ? [401, `Incorrect PIN. ${check.attemptsLeft} attempt(s) left.`] :
+                                   [401, 'Incorrect PIN.'];
+    return res.status(status).render('driver-login', { chat, error });
+  }
+
+  // the session ends with the PIN it was opened with
+  const { setAt, expiresAt } = check.driver.pin!;
+  res.cookie(SESSION_COOKIE, signDashLink(check.driver.chatId, setAt?.getTime() ?? 0, expiresAt!), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    expires: expiresAt
+  });
+  res.redirect('/driver/dashboard');
+}));
+
+/* ------------------------------------------------------------------ */
+/* POST /driver/logout                                                */
+/* ------------------------------------------------------------------ */
+driverRouter.post('/logout', (_req, res) => {
+  res.clearCookie(SESSION_COOKIE);
+  res.redirect('/driver/login');
+});
+
+/* ------------------------------------------------------------------ */
+/* GET  /driver/dashboard                                             */
+/* ------------------------------------------------------------------ */
+driverRouter.get('/dashboard', requireDriver, asyncHandler(async (req, res) => {
+  const page = Math.max(1, Number(req.query.page) || 1);
+  const data = await dashboardFor(res.locals.driver, page);
+  res.render('driver-dashboard', { ...data, formatZar, when, statementPeriod });
+}));
+
+/* ------------------------------------------------------------------ */
+/* GET  /driver/statements/:id.csv                                    */
+/* ------------------------------------------------------------------ */
+driverRouter.get('/statements/:id.csv', requireDriver, asyncHandler(async (req, res) => {
+  const statement = mongoose.isValidObjectId(req.params.id)
+    ? await PayoutStatement.findOne({ _id: req.params.id, driverChatId: res.locals.driver.chatId })
+    : null;
+  if (!statement) return res.status(404).send('Statement not found');
+
+  res.attachment(statementFilename(statement));
+  res.type('text/csv').send(await statementCsv(statement));
+}));
@@ -0,0 +1,35 @@
+/**********************************************************************
+ * routes/files.ts  – Locally stored documents (STORAGE=local)
+ * --------------------------------------------------------------------
+ *  GET /files/<key>?expires&sig   one document file
+ *
+ *  Only links signed by LocalDiskStorage.signedUrl are served; the
+ *  admin API hands them out as `viewUrl`. With Cloudinary storage
+ *  files are fetched from Cloudinary and every request here is a 404.
+ *********************************************************************/
+
+import { Router } from 'express';
+import { getStorage, LocalDiskStorage } from '../utils/storage.js';
+
+export const filesRouter = Router();
+
+filesRouter.get('/*', (req, res) => {
+  const storage = getStorage();
+  if (!(storage instanceof LocalDiskStorage)) return res.sendStatus(404);
+
+  const key = (req.params as Record<string, string>)[0];
+  const expires = Number(req.query.expires);
+  const sig = typeof req.query.sig === 'string' ? req.query.sig : '';
+  if (!storage.verify(key, expires, sig)) {
+    return res.status(403).json({ error: 'Link invalid or expired' });
+  }
+
+  let file: string;
+  try { file = storage.pathFor(key); }
+  catch { return res.sendStatus(404); }
+
+  res.set('Cache-Control', 'private, no-store');
+  res.sendFile(file, err => {
+    if (err && !res.headersSent) res.sendStatus(404);
+  });
+});
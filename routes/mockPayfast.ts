@@ -0,0 +1,63 @@
+/**********************************************************************
+ * routes/mockPayfast.ts  – local stand‑in for the PayFast gateway
+ * --------------------------------------------------------------------
+ *  Dev / test only. Point PAYFAST_HOST at `${APP_BASE_URL}/mock-payfast`
+ *  and allow 127.0.0.1 in PAYFAST_VALID_IPS; the “Pay” button then
+ *  fires a correctly signed ITN at notify_url, just like PayFast would.
+ *********************************************************************/
+
+import { Router } from 'express';
+import { payfastConfig, PayfastFields, sign } from '../utils/payfast.js';
+
+export const mockPayfastRouter = Router();
+
+/* ------------------------------------------------------------------ */
+/* POST  /eng/process   – checkout page                               */
+/* ------------------------------------------------------------------ */
+mockPayfastRouter.post('/eng/process', (req, res) => {
+  const fields = req.body as PayfastFields;
+  if (fields.signature !== sign(fields)) {
+    return res.status(400).send('Invalid signature');
+  }
+  res.render('mock-payfast', { fields, action: `${req.baseUrl}/complete` });
+});
+
+/* ------------------------------------------------------------------ */
+/* POST  /complete   – buyer pressed Pay or Cancel                    */
+/* ------------------------------------------------------------------ */
+mockPayfastRouter.post('/complete', async (req, res) => {
+  const { outcome, ...fields } = req.body as PayfastFields;
+  if (outcome !== 'pay') return res.redirect(fields.cancel_url);
+
+  const itn: PayfastFields = {
+    m_payment_id:   fields.m_payment_id,
+    pf_payment_id:  String(Date.now()),
+    payment_status: 'COMPLETE',
+    item_name:      fields.item_name,
+    amount_gross:   fields.amount,
+    amount_fee:     '0.00',
+    amount_net:     fields.amount,
+    name_first:     fields.name_first ?? '',
+    merchant_id:    payfastConfig.merchantId
+  };
+  itn.signature = sign(itn, payfastConfig.passphrase, false);
+
+  try {
+    const r = await fetch(fields.notify_url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams(itn)
+    });
+    console.log(`[mock-payfast] ITN → ${fields.notify_url}: ${r.status}`);
+  } catch (err) {
+    console.error('[mock-payfast] ITN delivery failed:', err);
+  }
+  res.redirect(fields.return_url);
+});
+
+/* ------------------------------------------------------------------ */
+/* POST  /eng/query/validate   – server‑side ITN confirmation         */
+/* ------------------------------------------------------------------ */
+mockPayfastRouter.post('/eng/query/validate', (_req, res) => {
+  res.type('text/plain').send('VALID');
+});
@@ -0,0 +1,109 @@
+/**********************************************************************
+ * routes/payment.ts  – Express router for trip payments (PayFast)
+ * --------------------------------------------------------------------
+ *  • POST /generate-payment-link   { tripId } → { paymentLink }
+ *  • GET  /payment?trip=…          checkout page posting to PayFast
+ *  • GET  /payment/subscription?payment=…   driver plan checkout
+ *  • POST /payment/notify          PayFast ITN webhook
+ *  • GET  /payment/return|cancel   where PayFast sends the rider back
+ *********************************************************************/
+
+import { NextFunction, Request, Response, Router } from 'express';
+import mongoose from 'mongoose';
+import { TripRequest } from '../models/TripRequest.js';
+import { Payment } from '../models/Payment.js';
+import {
+  amountDue, checkoutFor, handleItn, paymentLinkFor, subscriptionCheckoutFor
+} from '../controllers/paymentController.js';
+import { planFor } from '../controllers/subscriptionController.js';
+import { asyncHandler } from '../utils/asyncHandler.js';
+import { formatZar } from '../utils/fare.js';
+
+export const paymentRouter = Router();
+
+const findTrip = (id: unknown) =>
+  typeof id === 'string' && mongoose.isValidObjectId(id) ? TripRequest.findById(id) : null;
+
+/* ------------------------------------------------------------------ */
+/* POST  /generate-payment-link                                       */
+/* ------------------------------------------------------------------ */
+paymentRouter.post('/generate-payment-link', asyncHandler(async (req, res) => {
+  const trip = await findTrip(req.body.tripId);
+  if (!trip) return res.status(404).json({ error: 'Trip not found' });
+  if (amountDue(trip) == null) return res.status(409).json({ error: 'Trip has no fare yet' });
+  return res.json({ paymentLink: paymentLinkFor(trip.id) });
+}));
+
+/* ------------------------------------------------------------------ */
+/* GET  /payment?trip=<id>                                            */
+/* ------------------------------------------------------------------ */
+paymentRouter.get('/payment', asyncHandler(async (req, res) => {
+  const trip = await findTrip(req.query.trip);
+  if (!trip) return res.status(404).send('Trip not found');
+  if (trip.payment?.status === 'paid') {
+    return res.status(409).render('payment-result', { ok: true, alreadyPaid: true });
+  }
+  if (amountDue(trip) == null) return res.status(409).send('This trip has no fare yet');
+
+  const checkout = await checkoutFor(trip);
+  res.render('payment', { trip, amount: formatZar(amountDue(trip)!), checkout });
+}));
+
+/* ------------------------------------------------------------------ */
+/* GET  /payment/subscription?payment=<id>                            */
+/* ------------------------------------------------------------------ */
+paymentRouter.get('/payment/subscription', asyncHandler(async (req, res) => {
+  const id = req.query.payment;
+  const payment = typeof id === 'string' && mongoose.isValidObjectId(id)
+    ? await Payment.findOne({ _id: id, purpose: 'subscription' })
+    : null;
+  if (!payment) return res.status(404).send('Payment not found');
+  if (payment.state === 'paid') {
+    return res.status(409).render('payment-result', { ok: true, alreadyPaid: true });
+  }
+  if (payment.state === 'failed') return res.status(410).send('This payment link has expired. Choose a plan again in the bot.');
+
+  res.render('subscription-payment', {
+    plan: planFor(payment.plan),
+    amount: formatZar(payment.amount),
+    checkout: subscriptionCheckoutFor(payment)
+  });
+}));
+
+/* ------------------------------------------------------------------ */
+/* POST  /payment/notify   (PayFast ITN)                              */
+/* ------------------------------------------------------------------ */
+// a failure answers 500, so PayFast retries the notification
+paymentRouter.post('/payment/notify', asyncHandler(async (req, res) => {
+  const result = await handleItn(req.body, req.ip ?? '');
+  if (!result.ok) {
+    console.warn('[payment] ITN rejected:', result.reason);
+    return res.sendStatus(400);
+  }
+  res.sendStatus(200);
+}));
+
+/* ------------------------------------------------------------------ */
+/* GET  /payment/return  &  /payment/cancel                           */
+/* ------------------------------------------------------------------ */
+paymentRouter.get('/payment/return', (_req, res) =>
+  res.render('payment-result', { ok: true, alreadyPaid: false })
+);
+
+paymentRouter.get('/payment/cancel', (_req, res) =>
+  res.render('payment-result', { ok: false, alreadyPaid: false })
+);
+
+/* ------------------------------------------------------------------ */
+/* errors                                                             */
+/* ------------------------------------------------------------------ */
+// riders land on these pages from Telegram, so they get text, not JSON
+paymentRouter.use((err: unknown, req: Request, res: Response, _next: NextFunction) => {
+  console.error(`[payment] ${req.method} ${req.path} failed:`, err);
+  if (res.headersSent) return;
+  if (req.path === '/payment/notify') return res.sendStatus(500);
+  if (req.method === 'GET') {
+    return res.status(500).send('Something went wrong preparing this payment. Please try the link from Telegram again later.');
+  }
+  res.status(500).json({ error: 'Internal server error' });
+});
@@ -6,9 +6,26 @@ import ejs from 'ejs';
 import path from 'path';
 import { connectDB } from './db.js';
 import { telegramRouter } from './routes/telegram.js';
+import { paymentRouter } from './routes/payment.js';
+import { mockPayfastRouter } from './routes/mockPayfast.js';
+import { adminRouter } from './routes/admin.js';
+import { driverRouter } from './routes/driver.js';
+import { filesRouter } from './routes/files.js';
 import { bot, sendApprovalLink } from './bot.js';
 import { RiderPort } from './riderPort.js';
 import { Driver } from './models/Driver.js';
+import { startStaleDriverJob } from './jobs/staleDrivers.js';
+import { startDocumentExpiryJob } from './jobs/documentExpiry.js';
+import { startScheduledRidesJob } from './jobs/scheduledRides.js';
+import { startWeeklyStatementsJob } from './jobs/weeklyStatements.js';
+import { startSubscriptionJob } from './jobs/subscriptions.js';
+import { startDataRetentionJob } from './jobs/dataRetention.js';
+import { startPrivateFilesJob } from './jobs/privateFiles.js';
+import { startDispatchRecoveryJob } from './jobs/dispatchRecovery.js';
+import { authenticateSocket } from './middleware/socketAuth.js';
+import { onConnection } from './controllers/realtimeController.js';
+import { backfillVehicles } from './controllers/vehicleController.js';
+import { attachRealtime } from './utils/realtime.js';
 
 const {
   PORT = '4000',
@@ -18,7 +35,6 @@ const {
   TELEGRAM_WEBHOOK_URL,
   RIDER_WEBHOOK_URL,
   MONGODB_URI,
-  APP_BASE_URL,
 } = process.env;
 
 if (!MONGODB_URI)    throw new Error('MONGODB_URI missing');
@@ -30,6 +46,8 @@ console.log(`🟢 Starting server in ${NODE_ENV} mode on PORT = ${PORT}`);
 const __dirname = path.dirname(new URL(import.meta.url).pathname);
 
 const app = express();
+// behind a proxy req.ip must come from X‑Forwarded‑For (PayFast IP checks)
+app.set('trust proxy', process.env.TRUST_PROXY ?? 'loopback');
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true })); // for form posts
 
@@ -56,40 +74,26 @@ app.post('/telegram/rider-webhook',
   }
 );
 
-// ── Generate a mock payment link ────────────────────────────────
-app.post('/generate-payment-link', (req, res) => {
-  const { chatId, amount } = req.body;
-  if (!chatId || typeof amount !== 'number') {
-    return res.status(400).json({ error: 'chatId and amount (number) required' });
-  }
-  // In real life you’d call PayFast here and get a URL back.
-  // For mock, point to our own `/payment` page with query params.
-  const paymentLink = `${APP_BASE_URL}/payment?chatId=${encodeURIComponent(chatId)}&amount=${amount}`;
-  return res.json({ paymentLink });
-});
+// ── Trip payments (PayFast) ─────────────────────────────────────
+app.use(paymentRouter);
+if (NODE_ENV !== 'production') {
+  // local stand‑in gateway; see routes/mockPayfast.ts
+  app.use('/mock-payfast', mockPayfastRouter);
+}
 
-// ── Render mock payment page ────────────────────────────────────
-app.get('/payment', (req, res) => {
-  const { chatId, amount } = req.query;
-  if (!chatId || !amount) {
-    return res.status(400).send('Missing chatId or amount');
-  }
-  res.render('payment', { chatId, amount });
-});
+// ── Admin API ───────────────────────────────────────────────────
+app.use('/admin', adminRouter);
 
-// ── Handle mock‑pay form submission ─────────────────────────────
-app.post('/mock-pay', async (req, res) => {
-  const { chatId, amount, method } = req.body;
-  if (!chatId || !amount || !method) {
-    return res.status(400).send('Missing fields');
-  }
-  // Notify the user in Telegram that payment was received:
-  await bot.sendMessage(
-    chatId,
-    `✅ Payment of ${amount} ZAR received via *${method}*. Thank you!`,
-    { parse_mode: 'Markdown' }
-  );
-  res.render('thankyou', { amount, method });
+// ── Driver dashboard (PIN login) ───────────────────────────────
+app.use('/driver', driverRouter);
+
+// ── Document files behind signed links (STORAGE=local) ─────────
+app.use('/files', filesRouter);
+
+// ── Errors from async routes ───────────────────────────────────
+app.use((err: unknown, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+  console.error('unhandled route error:', err);
+  if (!res.headersSent) res.status(500).json({ error: 'Internal server error' });
 });
 
 // ── Socket.io + HTTP server ────────────────────────────────────
@@ -97,9 +101,26 @@ app.post('/mock-pay', async (req, res) => {
   await connectDB();
   console.log('✅ MongoDB connected');
 
+  // ── Vehicles for drivers approved before they were registered separately
+  backfillVehicles()
+    .then(n => n && console.log(`🚘 created ${n} vehicle(s) from registration documents`))
+    .catch(err => console.error('vehicle backfill failed:', err));
+
+  // ── Background jobs
+  startStaleDriverJob();
+  startDocumentExpiryJob();
+  startScheduledRidesJob();
+  startWeeklyStatementsJob();
+  startSubscriptionJob();
+  startDataRetentionJob();
+  startPrivateFilesJob();
+  startDispatchRecoveryJob();
+
   const http = createServer(app);
   const io = new IO(http, { cors: { origin: PUBLIC_SOCKET_ORIGIN } });
-  io.on('connection', sock => console.log('⚡ Socket connected:', sock.id));
+  io.use(authenticateSocket);
+  io.on('connection', onConnection);
+  attachRealtime(io);
 
   http.listen(+PORT, () =>
     console.log(`> backend running on http://localhost:${PORT}`)
@@ -0,0 +1,78 @@
+import "./setup.js";
+import { describe, test, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { Driver } from "../models/Driver.js";
+import { verifyPin } from "../controllers/authController.js";
+import { bot } from "../bot.js";
+import { memoryModel } from "./memoryModel.js";
+
+const HOUR_MS = 60 * 60_000;
+const HASH_1234 = "$2a$04$Lfvz4UgPhlbxJ51pSlCQXuMqHl0sMH0HCdFsPP2owmcfWEqX.diVa";     // bcrypt, cost 4
+
+/** An approved driver whose PIN is 1234; `pin` overrides its PIN fields. */
+function setup(t: TestContext, pin: Record<string, unknown> = {}) {
+  const [driver] = memoryModel(t, Driver, [{
+    chatId: "driver-1",
+    status: "approved",
+    pin: {
+      hash: HASH_1234,
+      setAt: new Date(),
+      expiresAt: new Date(Date.now() + HOUR_MS),
+      failedAttempts: 0,
+      ...pin,
+    },
+  }]);
+  const messages = t.mock.method(bot, "sendMessage", async () => ({}));
+  return { pin: driver.pin as { failedAttempts: number; lockedUntil?: Date }, messages };
+}
+
+describe("verifyPin", () => {
+  test("accepts the right PIN and forgets earlier wrong ones", async (t) => {
+    const { pin } = setup(t);
+
+    assert.deepEqual(await verifyPin("driver-1", "0000"), { ok: false, reason: "wrong", attemptsLeft: 4 });
+    assert.equal((await verifyPin("driver-1", "1234")).ok, true);
+    assert.equal(pin.failedAttempts, 0);
+  });
+
+  test("locks the login after five wrong PINs, even for the right one", async (t) => {
+    const { pin, messages } = setup(t);
+
+    for (const left of [4, 3, 2, 1]) {
+      assert.deepEqual(await verifyPin("driver-1", "0000"), { ok: false, reason: "wrong", attemptsLeft: left });
+    }
+    const locked = await verifyPin("driver-1", "0000");
+
+    assert.equal(locked.ok, false);
+    assert.equal(!locked.ok && locked.reason, "locked");
+    assert.ok(pin.lockedUntil && pin.lockedUntil.getTime() > Date.now() + 14 * 60_000);
+    assert.equal(messages.mock.callCount(), 1);
+    assert.equal(messages.mock.calls[0].arguments[0], "driver-1");
+    assert.equal((await verifyPin("driver-1", "1234")).ok, false);
+  });
+
+  test("does not let parallel guesses past the limit", async (t) => {
+    const { pin, messages } = setup(t);
+
+    const results = await Promise.all(Array.from({ length: 8 }, () => verifyPin("driver-1", "0000")));
+
+    const reasons = results.map((r) => (r.ok ? "ok" : r.reason));
+    assert.equal(reasons.filter((r) => r === "wrong").length, 4);
+    assert.equal(reasons.filter((r) => r === "locked").length, 4);
+    assert.ok(pin.lockedUntil && pin.lockedUntil.getTime() > Date.now());
+    assert.equal(messages.mock.callCount(), 1);
+  });
+
+  test("lets the driver in again once the lockout has passed", async (t) => {
+    setup(t, { lockedUntil: new Date(Date.now() - 60_000) });
+
+    assert.equal((await verifyPin("driver-1", "1234")).ok, true);
+  });
+
+  test("turns away an expired PIN without counting the attempt", async (t) => {
+    const { pin } = setup(t, { expiresAt: new Date(Date.now() - 60_000) });
+
+    assert.deepEqual(await verifyPin("driver-1", "1234"), { ok: false, reason: "expired" });
+    assert.equal(pin.failedAttempts, 0);
+  });
+});
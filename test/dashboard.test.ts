@@ -0,0 +1,56 @@
+import "./setup.js";
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { Types } from "mongoose";
+import { TripRequest } from "../models/TripRequest.js";
+import { WalletEntry } from "../models/WalletEntry.js";
+import { earningsSince } from "../controllers/dashboardController.js";
+import { recordTripEarnings } from "../controllers/walletController.js";
+import { memoryModel } from "./memoryModel.js";
+
+const DAY_MS = 24 * 60 * 60_000;
+
+/** A completed trip of driver-1, paid `method` with `fare`. */
+const completedTrip = (method: "online" | "cash", fare: number) =>
+  new TripRequest({
+    riderChatId: "rider-1",
+    driverChatId: "driver-1",
+    status: "completed",
+    paymentMethod: method,
+    fare: { estimate: fare, final: fare },
+    payment: { status: "paid", amount: fare },
+  });
+
+describe("earningsSince", () => {
+  test("sums fares, commission and take‑home pay of the trips settled since then", async (t) => {
+    const since = new Date(Date.now() - DAY_MS);
+    const entries = memoryModel(t, WalletEntry, [
+      // before the period, another driver's trip, a payout and an adjustment: all left out
+      { driverChatId: "driver-1", trip: new Types.ObjectId(), type: "trip_earning", amount: 40, fare: 50,
+        idempotencyKey: "old", createdAt: new Date(since.getTime() - 60_000) },
+      { driverChatId: "driver-2", trip: new Types.ObjectId(), type: "trip_earning", amount: 80, fare: 100,
+        idempotencyKey: "other" },
+      { driverChatId: "driver-1", type: "payout", amount: -30, reference: "EFT-1", idempotencyKey: "payout" },
+      { driverChatId: "driver-1", type: "adjustment", amount: 5, idempotencyKey: "adjustment" },
+    ]);
+
+    const online = completedTrip("online", 100);
+    await recordTripEarnings(online);
+    await recordTripEarnings(online);                 // settling twice writes one entry
+    await recordTripEarnings(completedTrip("cash", 50));
+
+    assert.equal(entries.length, 6);
+    assert.deepEqual(await earningsSince("driver-1", since), {
+      trips: 2,
+      fares: 150,
+      commission: 30,     // 20 of the online fare, 10 owed on the cash one
+      total: 120,         // 80 credited + 50 kept in cash − 10 owed
+    });
+  });
+
+  test("is zero for a driver with no settled trips", async (t) => {
+    memoryModel(t, WalletEntry);
+
+    assert.deepEqual(await earningsSince("driver-1", new Date(0)), { trips: 0, fares: 0, commission: 0, total: 0 });
+  });
+});
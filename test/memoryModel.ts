@@ -0,0 +1,90 @@
+/**********************************************************************
+ * test/memoryModel.ts
+ * --------------------------------------------------------------------
+ *  Runs a Mongoose model's queries against an in‑memory collection, so
+ *  the tests need no MongoDB server. Filters, updates and aggregation
+ *  pipelines are evaluated by mingo; results are hydrated documents of
+ *  the real model. The stubs are restored when the test ends.
+ *********************************************************************/
+
+import { TestContext } from "node:test";
+import { Aggregator, Query, update } from "mingo";
+import { Model, Types } from "mongoose";
+
+type Row = Record<string, unknown>;
+type Modifier = Parameters<typeof update>[1];
+
+/** ObjectIds become hex strings so mingo compares them by value. */
+const plain = (v: unknown): unknown => {
+  if (v instanceof Types.ObjectId) return v.toHexString();
+  if (Array.isArray(v)) return v.map(plain);
+  if (v && Object.getPrototypeOf(v) === Object.prototype) {
+    return Object.fromEntries(Object.entries(v).map(([k, x]) => [k, plain(x)]));
+  }
+  return v;
+};
+
+const isOperator = (key: string) => key.startsWith("$");
+
+/** Filter fields an upsert copies into the new record: `{ key: value }` only. */
+const equalities = (filter: Row) =>
+  Object.fromEntries(Object.entries(filter).filter(([k, v]) =>
+    !isOperator(k) && !(v && typeof v === "object" && Object.keys(v).some(isOperator))
+  ));
+
+/**
+ * Stub `model`'s query methods for the duration of test `t`. Resolves
+ * to the live rows, seeded from `seed` with the schema's defaults.
+ */
+export function memoryModel<T>(t: TestContext, model: Model<T>, seed: Row[] = []) {
+  const timestamps = !!model.schema.get("timestamps");
+  const rows: Row[] = [];
+
+  const insert = (fields: Row) => {
+    const now = new Date();
+    const stamps = timestamps ? { createdAt: now, updatedAt: now } : {};
+    const row = plain(new model({ ...stamps, ...fields }).toObject()) as Row;
+    rows.push(row);
+    return row;
+  };
+  seed.forEach(insert);
+
+  const match = (filter: Row) => {
+    const query = new Query(plain(filter) as Row);
+    return rows.find((row) => query.test(row));
+  };
+  const hydrated = (row?: Row) => (row ? model.hydrate(structuredClone(row)) : null);
+
+  /** Apply `changes` like Mongoose: bare fields are a $set, $setOnInsert only on insert. */
+  const modify = (filter: Row, changes: Row, upsert = false) => {
+    const { $setOnInsert, ...ops } = Object.keys(changes).some(isOperator) ? changes : { $set: changes };
+    let row = match(filter);
+    const before = row && structuredClone(row);
+    if (!row && upsert) row = insert({ ...equalities(filter), ...($setOnInsert as Row) });
+    if (row && Object.keys(ops).length) update(row, plain(ops) as Modifier);
+    return { before, after: row };
+  };
+
+  const stubs: Record<string, (...args: never[]) => unknown> = {
+    findById: async (id: unknown) => hydrated(match({ _id: id })),
+    findOne: async (filter: Row) => hydrated(match(filter)),
+    exists: async (filter: Row) => {
+      const row = match(filter);
+      return row ? { _id: row._id } : null;
+    },
+    findOneAndUpdate: async (filter: Row, changes: Row, opts: { upsert?: boolean; new?: boolean } = {}) => {
+      const { before, after } = modify(filter, changes, opts.upsert);
+      return hydrated(opts.new ? after : before);
+    },
+    updateOne: async (filter: Row, changes: Row) => {
+      const { after } = modify(filter, changes);
+      return { matchedCount: after ? 1 : 0, modifiedCount: after ? 1 : 0 };
+    },
+    aggregate: async (pipeline: Row[]) =>
+      new Aggregator(plain(pipeline) as Row[]).run(rows.map((row) => structuredClone(row))),
+  };
+  for (const [name, stub] of Object.entries(stubs)) {
+    t.mock.method(model as unknown as Record<string, (...args: never[]) => unknown>, name, stub);
+  }
+  return rows;
+}
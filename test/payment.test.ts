@@ -0,0 +1,159 @@
+import "./setup.js";
+import { describe, test, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { Types } from "mongoose";
+import type { Server } from "socket.io";
+import { Payment, PaymentDocument } from "../models/Payment.js";
+import { TripRequest } from "../models/TripRequest.js";
+import { WalletEntry } from "../models/WalletEntry.js";
+import { handleItn } from "../controllers/paymentController.js";
+import { RiderPort } from "../riderPort.js";
+import { attachRealtime } from "../utils/realtime.js";
+import { PayfastFields, payfastConfig, sign } from "../utils/payfast.js";
+import { memoryModel } from "./memoryModel.js";
+
+const tripId = new Types.ObjectId();
+
+const payment = (fields: Record<string, unknown> = {}) => ({
+  _id: new Types.ObjectId(),
+  trip: tripId,
+  riderChatId: "rider-1",
+  method: "online",
+  amount: 120,
+  provider: "payfast",
+  idempotencyKey: "trip:1:online:120.00",
+  state: "initiated",
+  ...fields,
+});
+
+describe("Payment.transition", () => {
+  test("moves along an allowed edge and records it", async (t) => {
+    const [row] = memoryModel(t, Payment, [payment()]);
+
+    const moved = await Payment.transition(row._id, "pending", { source: "itn", note: "PayFast PENDING" });
+
+    assert.equal(moved?.state, "pending");
+    assert.equal(row.state, "pending");
+    assert.deepEqual(
+      moved?.history.map(({ from, to, source, note }) => ({ from, to, source, note })),
+      [{ from: "initiated", to: "pending", source: "itn", note: "PayFast PENDING" }]
+    );
+  });
+
+  test("refuses a move the state machine does not allow", async (t) => {
+    const [row] = memoryModel(t, Payment, [payment({ state: "failed" })]);
+
+    assert.equal(await Payment.transition(row._id, "paid"), null);
+    assert.equal(row.state, "failed");
+    assert.deepEqual(row.history, []);
+  });
+
+  test("lets only one of two concurrent moves through", async (t) => {
+    const [row] = memoryModel(t, Payment, [payment()]);
+
+    const results = await Promise.all([
+      Payment.transition(row._id, "paid"),
+      Payment.transition(row._id, "failed"),
+    ]);
+
+    const applied = results.filter((r): r is PaymentDocument => !!r);
+    assert.equal(applied.length, 1);
+    assert.equal(row.state, applied[0].state);
+    assert.equal((row.history as unknown[]).length, 1);
+  });
+
+  test("starts a new attempt once the previous one failed", async (t) => {
+    const rows = memoryModel(t, Payment);
+    const data = { trip: tripId, method: "online", amount: 120, source: "checkout" };
+
+    const first = await Payment.attempt("trip:1:online:120.00", data);
+    assert.equal((await Payment.attempt("trip:1:online:120.00", data)).id, first.id);
+
+    await Payment.transition(first._id, "failed");
+    const retry = await Payment.attempt("trip:1:online:120.00", data);
+
+    assert.notEqual(retry.id, first.id);
+    assert.equal(retry.idempotencyKey, "trip:1:online:120.00#2");
+    assert.equal(retry.state, "initiated");
+    assert.equal(rows.length, 2);
+  });
+});
+
+describe("handleItn", () => {
+  const itn = (paymentId: unknown, status: string, pfId = "pf-1") => {
+    const body: PayfastFields = {
+      m_payment_id: String(paymentId),
+      pf_payment_id: pfId,
+      payment_status: status,
+      amount_gross: "120.00",
+      merchant_id: payfastConfig.merchantId,
+    };
+    return { ...body, signature: sign(body, payfastConfig.passphrase, false) };
+  };
+
+  /** A rider's unpaid trip with one online payment, plus what the ITN handler sends out. */
+  function setup(t: TestContext) {
+    const [pay] = memoryModel(t, Payment, [payment()]);
+    const [trip] = memoryModel(t, TripRequest, [{
+      _id: tripId, riderChatId: "rider-1", status: "active",
+      fare: { estimate: 120 }, payment: { status: "unpaid" },
+    }]);
+    memoryModel(t, WalletEntry);
+
+    const riderMessages = t.mock.method(RiderPort, "sendMessage", async () => ({}));
+    const adminEvents: { event: string; payload: unknown }[] = [];
+    attachRealtime({
+      to: () => ({ emit: (event: string, payload: unknown) => adminEvents.push({ event, payload }) }),
+    } as unknown as Server);
+    t.mock.method(console, "error", () => {});
+    return { pay, trip, riderMessages, adminEvents };
+  }
+
+  test("settles the payment and the trip once, however often COMPLETE arrives", async (t) => {
+    const { pay, trip, riderMessages, adminEvents } = setup(t);
+
+    assert.deepEqual(await handleItn(itn(pay._id, "COMPLETE"), "127.0.0.1"), { ok: true });
+    assert.deepEqual(await handleItn(itn(pay._id, "COMPLETE"), "127.0.0.1"), { ok: true });
+
+    assert.equal(pay.state, "paid");
+    assert.equal(pay.providerRef, "pf-1");
+    assert.equal((pay.history as unknown[]).length, 1);
+    assert.equal((trip.payment as { status: string }).status, "paid");
+    assert.equal(trip.paymentMethod, "online");
+    assert.equal(riderMessages.mock.callCount(), 1);
+    assert.deepEqual(adminEvents, []);
+  });
+
+  test("fails the payment on FAILED and flags a later COMPLETE instead of applying it", async (t) => {
+    const { pay, trip, adminEvents } = setup(t);
+
+    assert.deepEqual(await handleItn(itn(pay._id, "FAILED"), "127.0.0.1"), { ok: true });
+    assert.equal(pay.state, "failed");
+
+    assert.deepEqual(await handleItn(itn(pay._id, "COMPLETE", "pf-2"), "127.0.0.1"), { ok: true });
+    assert.equal(pay.state, "failed");
+    assert.equal((trip.payment as { status: string }).status, "unpaid");
+    assert.deepEqual(adminEvents, [{
+      event: "payment:unapplied",
+      payload: { paymentId: pay._id, state: "failed", providerRef: "pf-2", amount: 120 },
+    }]);
+  });
+
+  test("rejects a notification with a bad signature", async (t) => {
+    const { pay } = setup(t);
+
+    const result = await handleItn({ ...itn(pay._id, "COMPLETE"), signature: "forged" }, "127.0.0.1");
+
+    assert.deepEqual(result, { ok: false, reason: "signature mismatch" });
+    assert.equal(pay.state, "initiated");
+  });
+
+  test("rejects a notification for an unknown payment", async (t) => {
+    const { pay } = setup(t);
+
+    const result = await handleItn(itn(new Types.ObjectId(), "COMPLETE"), "127.0.0.1");
+
+    assert.equal(result.ok, false);
+    assert.equal(pay.state, "initiated");
+  });
+});
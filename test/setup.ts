@@ -0,0 +1,9 @@
+// Imported first by every test file, before any module reads its settings.
+
+process.env.NODE_ENV = "production";          // keep the bots from polling Telegram
+process.env.PAYFAST_VALIDATE = "false";
+process.env.PAYFAST_VALID_IPS = "127.0.0.1";
+process.env.PAYFAST_PASSPHRASE = "test-passphrase";
+process.env.PLATFORM_COMMISSION_PCT = "20";
+process.env.PIN_MAX_ATTEMPTS = "5";
+process.env.PIN_LOCKOUT_MIN = "15";
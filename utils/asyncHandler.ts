@@ -0,0 +1,11 @@
+// backend/utils/asyncHandler.ts
+
+import { NextFunction, Request, RequestHandler, Response } from 'express'
+
+/**
+ * Express 4 does not catch rejected promises from handlers; forward them
+ * to the error middleware instead of leaving the request hanging.
+ */
+export const asyncHandler =
+  (fn: (req: Request, res: Response, next: NextFunction) => Promise<unknown>): RequestHandler =>
+  (req, res, next) => { fn(req, res, next).catch(next) }
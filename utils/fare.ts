@@ -0,0 +1,118 @@
+// backend/utils/fare.ts
+
+import { haversineKm, LatLon } from './geo'
+
+export interface FareRates {
+  baseFare:    number   // ZAR
+  perKm:       number   // ZAR per km
+  perMinute:   number   // ZAR per minute
+  minimumFare: number   // ZAR
+  surge:       number   // multiplier, 1 = no surge
+}
+
+export interface CityFares {
+  name:      string
+  center?:   LatLon      // omitted for the catch‑all entry
+  radiusKm?: number
+  classes:   Record<string, FareRates>
+}
+
+export interface FareQuote {
+  city:         string
+  vehicleClass: string
+  distanceKm:   number
+  durationMin:  number
+  surge:        number
+  amount:       number
+}
+
+export const DEFAULT_VEHICLE_CLASS = 'economy'
+
+/** Straight‑line distance × this ≈ road distance. */
+const ROUTE_FACTOR   = Number(process.env.FARE_ROUTE_FACTOR ?? 1.3)
+const AVG_SPEED_KMH  = Number(process.env.FARE_AVG_SPEED_KMH ?? 30)
+
+/**
+ * Rates per city and vehicle class. The last entry without a centre is
+ * the fallback. Override the whole table with FARE_TABLE_JSON.
+ */
+const DEFAULT_FARE_TABLE: CityFares[] = [
+  {
+    name: 'johannesburg',
+    center: { lat: -26.2041, lon: 28.0473 },
+    radiusKm: 60,
+    classes: {
+      economy: { baseFare: 15, perKm: 7.5, perMinute: 1.0, minimumFare: 35, surge: 1 },
+      xl:      { baseFare: 25, perKm: 11,  perMinute: 1.5, minimumFare: 55, surge: 1 }
+    }
+  },
+  {
+    name: 'cape_town',
+    center: { lat: -33.9249, lon: 18.4241 },
+    radiusKm: 50,
+    classes: {
+      economy: { baseFare: 15, perKm: 8,  perMinute: 1.0, minimumFare: 35, surge: 1 },
+      xl:      { baseFare: 25, perKm: 12, perMinute: 1.5, minimumFare: 55, surge: 1 }
+    }
+  },
+  {
+    name: 'default',
+    classes: {
+      economy: { baseFare: 15, perKm: 7,  perMinute: 1.0, minimumFare: 30, surge: 1 },
+      xl:      { baseFare: 25, perKm: 10, perMinute: 1.5, minimumFare: 50, surge: 1 }
+    }
+  }
+]
+
+export const FARE_TABLE: CityFares[] = process.env.FARE_TABLE_JSON
+  ? JSON.parse(process.env.FARE_TABLE_JSON)
+  : DEFAULT_FARE_TABLE
+
+const fallbackCity = () =>
+  FARE_TABLE.find(c => !c.center) ?? FARE_TABLE[FARE_TABLE.length - 1]
+
+/** The service city whose area contains `point` (or the fallback). */
+export function cityFor(point: LatLon): CityFares {
+  const inside = FARE_TABLE.find(c =>
+    c.center && c.radiusKm != null && haversineKm(c.center, point) <= c.radiusKm
+  )
+  return inside ?? fallbackCity()
+}
+
+export function ratesFor(city: string, vehicleClass: string): FareRates {
+  const entry = FARE_TABLE.find(c => c.name === city) ?? fallbackCity()
+  const rates = entry.classes[vehicleClass] ?? entry.classes[DEFAULT_VEHICLE_CLASS]
+  if (!rates) throw new Error(`No fare rates for ${city}/${vehicleClass}`)
+  return rates
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+/** base + distance + time, with surge, never below the minimum. */
+export function computeFare(rates: FareRates, distanceKm: number, durationMin: number, surge = rates.surge) {
+  const metered = rates.baseFare + rates.perKm * distanceKm + rates.perMinute * durationMin
+  return round2(Math.max(rates.minimumFare, metered * surge))
+}
+
+/** Quote a trip from pickup and drop‑off coordinates. */
+export function estimateFare(
+  pickup: LatLon,
+  dropoff: LatLon,
+  vehicleClass = DEFAULT_VEHICLE_CLASS
+): FareQuote {
+  const city = cityFor(pickup)
+  const rates = ratesFor(city.name, vehicleClass)
+  const distanceKm = round2(haversineKm(pickup, dropoff) * ROUTE_FACTOR)
+  const durationMin = Math.ceil((distanceKm / AVG_SPEED_KMH) * 60)
+
+  return {
+    city: city.name,
+    vehicleClass,
+    distanceKm,
+    durationMin,
+    surge: rates.surge,
+    amount: computeFare(rates, distanceKm, durationMin)
+  }
+}
+
+export const formatZar = (amount: number) => `R ${amount.toFixed(2)}`
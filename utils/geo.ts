@@ -0,0 +1,23 @@
+// backend/utils/geo.ts
+
+export interface LatLon {
+  lat: number
+  lon: number
+}
+
+const EARTH_RADIUS_KM = 6371
+
+const rad = (deg: number) => (deg * Math.PI) / 180
+
+/**
+ * Great‑circle distance between two points in kilometres
+ * (haversine formula — good enough for city‑scale matching).
+ */
+export function haversineKm(a: LatLon, b: LatLon): number {
+  const dLat = rad(b.lat - a.lat)
+  const dLon = rad(b.lon - a.lon)
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLon / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h))
+}
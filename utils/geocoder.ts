@@ -0,0 +1,69 @@
+// backend/utils/geocoder.ts
+
+import { LatLon } from './geo'
+
+export interface GeocodeResult extends LatLon {
+  label: string
+}
+
+/** Turns a free‑text address into coordinates (null when not found). */
+export interface Geocoder {
+  geocode(query: string): Promise<GeocodeResult | null>
+}
+
+/**
+ * OpenStreetMap Nominatim. Respect their usage policy: identify the app
+ * via GEOCODER_USER_AGENT and keep traffic low.
+ */
+export class NominatimGeocoder implements Geocoder {
+  constructor(
+    private baseUrl = process.env.NOMINATIM_URL ?? 'https://nominatim.openstreetmap.org',
+    private country = process.env.GEOCODER_COUNTRY ?? 'za'
+  ) {}
+
+  async geocode(query: string): Promise<GeocodeResult | null> {
+    const url = new URL('/search', this.baseUrl)
+    url.search = new URLSearchParams({
+      q: query, format: 'json', limit: '1', countrycodes: this.country
+    }).toString()
+
+    const res = await fetch(url, {
+      headers: { 'User-Agent': process.env.GEOCODER_USER_AGENT ?? 'VayaRide/0.1' },
+      signal: AbortSignal.timeout(5000)
+    })
+    if (!res.ok) throw new Error(`Nominatim HTTP ${res.status}`)
+
+    const [hit] = await res.json() as { lat: string; lon: string; display_name: string }[]
+    return hit ? { lat: +hit.lat, lon: +hit.lon, label: hit.display_name } : null
+  }
+}
+
+/**
+ * Offline geocoder for development and tests: resolves a fixed set of
+ * place names, case‑insensitively, and nothing else.
+ */
+export class StubGeocoder implements Geocoder {
+  constructor(private places: Record<string, LatLon> = {
+    'or tambo airport':   { lat: -26.1367, lon: 28.2411 },
+    'sandton city':       { lat: -26.1076, lon: 28.0567 },
+    'park station':       { lat: -26.1952, lon: 28.0421 },
+    'cape town airport':  { lat: -33.9715, lon: 18.6021 },
+    'v&a waterfront':     { lat: -33.9036, lon: 18.4207 }
+  }) {}
+
+  async geocode(query: string): Promise<GeocodeResult | null> {
+    const key = query.trim().toLowerCase()
+    const hit = this.places[key]
+    return hit ? { ...hit, label: query.trim() } : null
+  }
+}
+
+let instance: Geocoder | undefined
+
+/** GEOCODER=nominatim (default) | stub */
+export function getGeocoder(): Geocoder {
+  instance ??= process.env.GEOCODER === 'stub'
+    ? new StubGeocoder()
+    : new NominatimGeocoder()
+  return instance
+}
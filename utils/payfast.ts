@@ -0,0 +1,125 @@
+// backend/utils/payfast.ts
+
+import { createHash } from 'crypto'
+
+/**
+ * PayFast settings. Defaults point at the public sandbox merchant; set
+ * PAYFAST_HOST to `${APP_BASE_URL}/mock-payfast` to use the local stand‑in.
+ */
+export const payfastConfig = {
+  merchantId:  process.env.PAYFAST_MERCHANT_ID  ?? '10000100',
+  merchantKey: process.env.PAYFAST_MERCHANT_KEY ?? '46f0cd694581a',
+  passphrase:  process.env.PAYFAST_PASSPHRASE   ?? '',
+  host:        process.env.PAYFAST_HOST         ?? 'https://sandbox.payfast.co.za',
+  // published PayFast ITN source ranges
+  validIps: (process.env.PAYFAST_VALID_IPS ??
+    '197.97.145.144/28,41.74.179.192/27,102.216.36.0/28,102.216.36.128/28,144.126.193.139'
+  ).split(',').map(s => s.trim()).filter(Boolean),
+  // ask PayFast to confirm each ITN server‑to‑server
+  validateWithServer: process.env.PAYFAST_VALIDATE !== 'false'
+}
+
+export type PayfastFields = Record<string, string>
+
+/* PayFast encodes like PHP urlencode: spaces become '+' */
+const encode = (v: string) => encodeURIComponent(v.trim()).replace(/%20/g, '+')
+
+/** key=value&… in the given order, skipping empty values when asked. */
+export function paramString(fields: PayfastFields, skipEmpty = true) {
+  return Object.entries(fields)
+    .filter(([k, v]) => k !== 'signature' && (!skipEmpty || v !== ''))
+    .map(([k, v]) => `${k}=${encode(v ?? '')}`)
+    .join('&')
+}
+
+/** md5 signature over the fields (+ passphrase when configured). */
+export function sign(fields: PayfastFields, passphrase = payfastConfig.passphrase, skipEmpty = true) {
+  let str = paramString(fields, skipEmpty)
+  if (passphrase) str += `&passphrase=${encode(passphrase)}`
+  return createHash('md5').update(str).digest('hex')
+}
+
+export interface CheckoutRequest {
+  paymentId:  string      // our reference, echoed back as m_payment_id
+  amount:     number
+  itemName:   string
+  returnUrl:  string
+  cancelUrl:  string
+  notifyUrl:  string
+  firstName?: string
+}
+
+/** Signed form fields + target URL for a PayFast checkout. */
+export function buildCheckout(req: CheckoutRequest) {
+  const fields: PayfastFields = {
+    merchant_id:  payfastConfig.merchantId,
+    merchant_key: payfastConfig.merchantKey,
+    return_url:   req.returnUrl,
+    cancel_url:   req.cancelUrl,
+    notify_url:   req.notifyUrl,
+    name_first:   req.firstName ?? '',
+    m_payment_id: req.paymentId,
+    amount:       req.amount.toFixed(2),
+    item_name:    req.itemName
+  }
+  return {
+    action: `${payfastConfig.host}/eng/process`,
+    fields: { ...fields, signature: sign(fields) }
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/* ITN verification                                                   */
+/* ------------------------------------------------------------------ */
+const ipToInt = (ip: string) =>
+  ip.split('.').reduce((n, o) => (n << 8) + Number(o), 0) >>> 0
+
+function ipAllowed(ip: string, allow: string[]) {
+  const addr = ip.replace(/^::ffff:/, '')
+  return allow.some(entry => {
+    const [base, bits] = entry.split('/')
+    if (!bits) return base === addr
+    if (!/^\d+\.\d+\.\d+\.\d+$/.test(addr)) return false
+    const mask = Number(bits) === 0 ? 0 : (~0 << (32 - Number(bits))) >>> 0
+    return (ipToInt(addr) & mask) === (ipToInt(base) & mask)
+  })
+}
+
+async function confirmWithServer(body: PayfastFields) {
+  const res = await fetch(`${payfastConfig.host}/eng/query/validate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: paramString(body, false),
+    signal: AbortSignal.timeout(10_000)
+  })
+  return (await res.text()).trim() === 'VALID'
+}
+
+export type ItnCheck = { ok: true } | { ok: false; reason: string }
+
+/**
+ * Verify an ITN callback: source IP, signature, merchant, amount and
+ * (optionally) a validation round‑trip to PayFast.
+ */
+export async function verifyItn(
+  body: PayfastFields,
+  sourceIp: string,
+  expectedAmount: number
+): Promise<ItnCheck> {
+  if (!ipAllowed(sourceIp, payfastConfig.validIps))
+    return { ok: false, reason: `source IP ${sourceIp} not allowed` }
+
+  if (body.signature !== sign(body, payfastConfig.passphrase, false))
+    return { ok: false, reason: 'signature mismatch' }
+
+  if (body.merchant_id !== payfastConfig.merchantId)
+    return { ok: false, reason: 'merchant mismatch' }
+
+  if (Math.abs(Number(body.amount_gross) - expectedAmount) > 0.01)
+    return { ok: false, reason: `amount ${body.amount_gross} ≠ ${expectedAmount.toFixed(2)}` }
+
+  if (payfastConfig.validateWithServer && !(await confirmWithServer(body)))
+    return { ok: false, reason: 'server validation failed' }
+
+  return { ok: true }
+}
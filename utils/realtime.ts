@@ -0,0 +1,29 @@
+// backend/utils/realtime.ts
+
+import type { Server } from 'socket.io'
+
+/**
+ * Socket.IO rooms. Sockets join them after authentication (see
+ * controllers/realtimeController.ts); publishers only address rooms.
+ */
+export const rooms = {
+  admin:  'admin',
+  driver: (chatId: string) => `driver:${chatId}`,
+  trip:   (tripId: string) => `trip:${tripId}`
+}
+
+let io: Server | undefined
+
+/** server.ts hands over its Socket.IO server once it exists. */
+export function attachRealtime(server: Server) {
+  io = server
+}
+
+/**
+ * Emit `event` to one or more rooms. Does nothing until attachRealtime
+ * has run, so models, bots and jobs can publish without importing
+ * server.ts.
+ */
+export function publish(to: string | string[], event: string, payload: unknown) {
+  io?.to(to).emit(event, payload)
+}
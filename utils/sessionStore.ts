@@ -0,0 +1,74 @@
+// backend/utils/sessionStore.ts
+
+import { Session } from '../models/Session'
+
+/** How long a conversation survives without a step change (SESSION_TTL_HOURS, default 24). */
+export const SESSION_TTL_MS = Number(process.env.SESSION_TTL_HOURS ?? 24) * 60 * 60_000
+
+/** Per‑chat conversation state for a bot; entries expire `ttlMs` after their last `set`. */
+export interface SessionStore<T> {
+  get(chatId: string): Promise<T | undefined>
+  set(chatId: string, value: T): Promise<void>
+  delete(chatId: string): Promise<void>
+}
+
+/** Process‑local store for development and tests. Lost on restart. */
+export class MemorySessionStore<T> implements SessionStore<T> {
+  private entries = new Map<string, { value: T; expiresAt: number }>()
+
+  constructor(private ttlMs = SESSION_TTL_MS) {}
+
+  async get(chatId: string) {
+    const entry = this.entries.get(chatId)
+    if (!entry) return undefined
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(chatId)
+      return undefined
+    }
+    return entry.value
+  }
+
+  async set(chatId: string, value: T) {
+    this.entries.set(chatId, { value, expiresAt: Date.now() + this.ttlMs })
+  }
+
+  async delete(chatId: string) {
+    this.entries.delete(chatId)
+  }
+}
+
+/**
+ * MongoDB store shared by every instance behind the webhook. `scope`
+ * keeps the driver and rider bots apart for the same chat id.
+ */
+export class MongoSessionStore<T> implements SessionStore<T> {
+  constructor(private scope: string, private ttlMs = SESSION_TTL_MS) {}
+
+  private key(chatId: string) {
+    return `${this.scope}:${chatId}`
+  }
+
+  async get(chatId: string) {
+    const s = await Session.findOne({ _id: this.key(chatId), expiresAt: { $gt: new Date() } }).lean()
+    return (s?.value ?? undefined) as T | undefined
+  }
+
+  async set(chatId: string, value: T) {
+    await Session.updateOne(
+      { _id: this.key(chatId) },
+      { value, expiresAt: new Date(Date.now() + this.ttlMs) },
+      { upsert: true }
+    )
+  }
+
+  async delete(chatId: string) {
+    await Session.deleteOne({ _id: this.key(chatId) })
+  }
+}
+
+/** SESSION_STORE=mongo (default) | memory */
+export function createSessionStore<T>(scope: string): SessionStore<T> {
+  return process.env.SESSION_STORE === 'memory'
+    ? new MemorySessionStore<T>()
+    : new MongoSessionStore<T>(scope)
+}
@@ -0,0 +1,214 @@
+// backend/utils/storage.ts
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { mkdir, readdir, rm, stat, writeFile } from 'fs/promises'
+import path from 'path'
+import { v2 as cloudinary } from 'cloudinary'
+import type { UploadApiResponse } from 'cloudinary'
+
+/** Where a stored file ended up; `key` is what later calls take. */
+export interface StoredFile {
+  key:    string      // e.g. vayaride/<chatId>/nationalId
+  url:    string      // backend location; not for sharing, see signedUrl
+  format: string      // jpg, png, pdf, …
+  bytes:  number
+}
+
+/** Driver and vehicle document files. Keys use `/` as folder separator. */
+export interface DocumentStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<StoredFile>
+  /** Link that lets whoever holds it view the file for `ttlSec`. */
+  signedUrl(key: string, format: string, ttlSec?: number): Promise<string>
+  delete(key: string, format: string): Promise<void>
+  /** Remove every file whose key starts with `prefix`. */
+  deletePrefix(prefix: string): Promise<void>
+}
+
+const DEFAULT_TTL_SEC = Number(process.env.STORAGE_URL_TTL_SEC ?? 15 * 60)
+
+const FORMATS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf'
+}
+
+const formatOf = (contentType: string) => {
+  const format = FORMATS[contentType.toLowerCase()]
+  if (!format) throw new Error(`Unsupported file type ${contentType}`)
+  return format
+}
+
+/** PDFs are stored as Cloudinary "raw" resources, everything else as images. */
+const resourceType = (format: string) => (format === 'pdf' ? 'raw' : 'image')
+
+/** Authenticated assets are only reachable through signed links. */
+const DELIVERY = 'authenticated'
+
+/**
+ * Public id and resource type behind a public delivery URL, as stored
+ * for uploads made before documents went private.
+ */
+export function publicAsset(url: string) {
+  const m = /\/(image|raw)\/upload\/(?:v\d+\/)?([^?#]+)$/.exec(url)
+  if (!m) return null
+  const [, resource_type, file] = m
+  const id = decodeURIComponent(file)
+  // raw public ids keep their extension, image ones are delivered with one
+  return { resource_type, key: resource_type === 'raw' ? id : id.replace(/\.[^./]+$/, '') }
+}
+
+/**
+ * Cloudinary, configured from CLOUDINARY_CLOUD_NAME / _API_KEY /
+ * _API_SECRET. Files are uploaded as authenticated assets, so only the
+ * expiring private download URLs from signedUrl can fetch them.
+ */
+export class CloudinaryStorage implements DocumentStorage {
+  constructor() {
+    cloudinary.config({
+      cloud_name: process.env.CLOUDINARY_CLOUD_NAME!,
+      api_key: process.env.CLOUDINARY_API_KEY!,
+      api_secret: process.env.CLOUDINARY_API_SECRET!
+    })
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<StoredFile> {
+    const format = formatOf(contentType)
+    const upload = await new Promise<UploadApiResponse>((res, rej) => {
+      const s = cloudinary.uploader.upload_stream({
+        public_id: key,
+        resource_type: resourceType(format),
+        type: DELIVERY,
+        overwrite: true,
+        timeout: 180_000
+      }, (e, r) => r ? res(r) : rej(e ?? new Error('Cloudinary returned no upload result')))
+      s.end(data)
+    })
+    // raw uploads report no format of their own; secure_url is left out
+    // on purpose, signedUrl is the only way in
+    return { key, url: `cloudinary:${key}`, format: upload.format ?? format, bytes: upload.bytes }
+  }
+
+  async signedUrl(key: string, format: string, ttlSec = DEFAULT_TTL_SEC) {
+    const type = resourceType(format)
+    return cloudinary.utils.private_download_url(key, type === 'raw' ? '' : format, {
+      resource_type: type,
+      type: DELIVERY,
+      expires_at: Math.floor(Date.now() / 1000) + ttlSec
+    })
+  }
+
+  async delete(key: string, format: string) {
+    await cloudinary.uploader.destroy(key, { resource_type: resourceType(format), type: DELIVERY, invalidate: true })
+  }
+
+  async deletePrefix(prefix: string) {
+    // 'upload' catches files from before uploads went private
+    for (const type of [DELIVERY, 'upload']) {
+      for (const resource_type of ['image', 'raw']) {
+        await cloudinary.api.delete_resources_by_prefix(prefix, { resource_type, type, invalidate: true })
+      }
+    }
+  }
+
+  /**
+   * Turn a public upload (by its old URL) into an authenticated asset
+   * under the same public id and return the storage key, or null when
+   * the URL is not a Cloudinary delivery URL.
+   */
+  async makePrivate(url: string) {
+    const asset = publicAsset(url)
+    if (!asset) return null
+    const { key, resource_type } = asset
+    try {
+      await cloudinary.uploader.rename(key, key, {
+        resource_type: resource_type as 'image' | 'raw', type: 'upload', to_type: DELIVERY, invalidate: true
+      })
+    } catch (err) {
+      // a first vehicle shares its files with the driver record
+      const moved = await cloudinary.api.resource(key, { resource_type, type: DELIVERY }).then(() => true, () => false)
+      if (!moved) throw err
+    }
+    return key
+  }
+}
+
+/**
+ * Files on local disk under STORAGE_DIR, for development and offline
+ * tests. They are served by routes/files.ts, which only accepts links
+ * signed here with STORAGE_URL_SECRET.
+ */
+export class LocalDiskStorage implements DocumentStorage {
+  private root: string
+
+  constructor(
+    root = process.env.STORAGE_DIR ?? 'uploads',
+    private baseUrl = process.env.APP_BASE_URL ?? '',
+    private secret = process.env.STORAGE_URL_SECRET ?? ''
+  ) {
+    this.root = path.resolve(root)
+    if (!secret) console.warn('⚠️ STORAGE_URL_SECRET missing — local file links will not verify')
+  }
+
+  /** Absolute path for `key`; refuses keys that would escape the root. */
+  pathFor(key: string) {
+    const file = path.resolve(this.root, key)
+    if (!file.startsWith(this.root + path.sep)) throw new Error(`Invalid storage key ${key}`)
+    return file
+  }
+
+  private sign(key: string, expires: number) {
+    return createHmac('sha256', this.secret).update(`${key}:${expires}`).digest('hex')
+  }
+
+  /** True when `sig` was issued by signedUrl for `key` and has not expired. */
+  verify(key: string, expires: number, sig: string) {
+    if (!this.secret || !(expires * 1000 > Date.now())) return false
+    const expected = Buffer.from(this.sign(key, expires))
+    const given = Buffer.from(sig)
+    return given.length === expected.length && timingSafeEqual(given, expected)
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<StoredFile> {
+    const format = formatOf(contentType)
+    const stored = `${key}.${format}`
+    const file = this.pathFor(stored)
+    await mkdir(path.dirname(file), { recursive: true })
+    await writeFile(file, data)
+    return { key: stored, url: `local:${stored}`, format, bytes: data.length }
+  }
+
+  async signedUrl(key: string, _format: string, ttlSec = DEFAULT_TTL_SEC) {
+    const expires = Math.floor(Date.now() / 1000) + ttlSec
+    const query = new URLSearchParams({ expires: String(expires), sig: this.sign(key, expires) })
+    return `${this.baseUrl}/files/${key.split('/').map(encodeURIComponent).join('/')}?${query}`
+  }
+
+  async delete(key: string) {
+    await rm(this.pathFor(key), { force: true })
+  }
+
+  async deletePrefix(prefix: string) {
+    const target = this.pathFor(prefix)
+    const isDir = await stat(target).then(s => s.isDirectory(), () => false)
+    if (isDir) return rm(target, { recursive: true, force: true })
+
+    // a file‑name prefix inside a folder, e.g. vayaride/<chatId>/vehicle-<id>-
+    const dir = path.dirname(target)
+    const names = await readdir(dir).catch(() => [] as string[])
+    await Promise.all(names
+      .filter(n => n.startsWith(path.basename(target)))
+      .map(n => rm(path.join(dir, n), { force: true })))
+  }
+}
+
+let instance: DocumentStorage | undefined
+
+/** STORAGE=cloudinary (default) | local */
+export function getStorage(): DocumentStorage {
+  instance ??= process.env.STORAGE === 'local'
+    ? new LocalDiskStorage()
+    : new CloudinaryStorage()
+  return instance
+}